@@ -0,0 +1,8 @@
+import{r as e}from"./vendor.js";const cn=(...a)=>twMerge(clsx(a));
+function Card(){return e.createElement("div",{className:"rounded-lg border bg-card text-card-foreground shadow-sm"})}
+const Button=({className:a})=>e.createElement("button",{className:"inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background"});
+const Overlay=()=>e.createElement("div",{className:"fixed inset-0 z-50 bg-black/80"});
+/* lucide-react v0.462.0 - ISC */
+const ArrowRight=createLucideIcon("ArrowRight",[["path",{d:"M5 12h14"}]]);
+"@radix-ui/react-dialog";
+window.__lovable={version:"2"};
@@ -0,0 +1,2 @@
+import{j as e,r as a}from"./vendor-C2kd81.js";function t(){return e.jsxs("main",{children:[e.jsx(n,{}),e.jsx(s,{}),e.jsx(o,{})]})}function n(){return e.jsx("section",{children:e.jsx("h1",{children:"Grooming your pup deserves"})})}function s(){const[r,c]=a.useState(0);return e.jsx("section",{children:r})}function o(){return e.jsx("footer",{})}export{t as default};
+//# sourceMappingURL=index-Bx81kQ2m.js.map
\ No newline at end of file
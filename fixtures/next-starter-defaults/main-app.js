@@ -0,0 +1 @@
+(self.webpackChunk_N_E=self.webpackChunk_N_E||[]).push([[744],{1028:function(e,n,t){Promise.resolve().then(t.bind(t,2981))}},function(e){window.next={version:"15.5.4",appDir:!0};var n=function(n){return e(e.s=n)};e.O(0,[971,117],function(){return n(1028)}),_N_E=e.O()}]);
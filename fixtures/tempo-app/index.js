@@ -0,0 +1,6 @@
+import{r as c,j as e}from"./vendor-a1b2c3.js";
+const t={VITE_TEMPO:"true",BASE_URL:"/"};
+if(t.VITE_TEMPO==="true"){import("tempo-devtools").then(({TempoDevtools:o})=>{TempoDevtools.init()})}
+const n=c.lazy(()=>import("tempo-routes"));
+function a(){return e.jsx("div",{className:"min-h-screen",children:e.jsx("h1",{children:"Book an appointment"})})}
+export{a as default};
@@ -0,0 +1 @@
+import{r as e}from"./react.js";const t=document.getElementById("root");e(t).render("Brightloop");
@@ -0,0 +1,13 @@
+// This component renders the hero section
+function Hero(){return jsx("div",{className:"flex items-center justify-between gap-4"})}
+// Initialize the state for the form
+const [email,setEmail]=useState("");
+// Handle the form submission
+function onSubmit(e){e.preventDefault()}
+// Check if the user is logged in
+const isLoggedIn=!!user;
+// This function formats the currency value
+function fmt(v){return v.toFixed(2)}
+const badge="inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold";
+const input="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2";
+import"lucide-react";
@@ -0,0 +1 @@
+var e=Object.defineProperty;import{r as t,j as n}from"./vendor.js";function a(){const[r,s]=t.useState(0);return n.jsx("main",{children:r})}const o=document.getElementById("root");t.createRoot(o).render(n.jsx(a,{}));
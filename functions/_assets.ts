@@ -0,0 +1,174 @@
+/**
+ * Resource loader — fetches a bounded set of same-origin JS bundles and
+ * stylesheets referenced by a page so fingerprints that only live in external
+ * assets (CSS variables, JS globals, shadcn class strings) can be matched,
+ * plus the source maps of those bundles (see _sourcemaps.ts).
+ */
+
+import type { HtmlFacts } from "./_html";
+import { FetchScheduler } from "./_scheduler";
+import { findSourceMapRef, MAX_SOURCE_MAP_BYTES, parseSourceMap, SourceFile, sourceMapText } from "./_sourcemaps";
+
+export interface Asset {
+  url: string;
+  kind: "script" | "stylesheet" | "sourcemap";
+  // sourcemap: file paths followed by the app's original sources
+  content: string;
+  // script: absolute URL of the bundle's source map (same-origin only)
+  sourceMapRef?: string;
+  // sourcemap: the files it lists
+  files?: SourceFile[];
+}
+
+/** Shared between pages of one crawl so common bundles are fetched once. */
+export type AssetCache = Map<string, Promise<Asset | null>>;
+
+const MAX_ASSETS = 8;
+const MAX_ASSET_BYTES = 300_000;
+// Enough of a truncated bundle's end to find its sourceMappingURL comment
+const MAX_TAIL_BYTES = 2000;
+const MAX_TOTAL_ASSET_BYTES = 1_500_000;
+const ASSET_TIMEOUT_MS = 5000;
+// Source maps are followed for the first bundles that have one
+const MAX_SOURCE_MAPS = 2;
+
+interface AssetRef {
+  url: string;
+  kind: "script" | "stylesheet";
+}
+
+/**
+ * Collect asset references in document order. Besides plain <script src> and
+ * <link rel=stylesheet>, Vite's modulepreload and Next.js' preload links are
+ * included since they point at the app's own chunks (e.g. /_next/static/chunks/*).
+ */
+export function findAssetRefs(facts: HtmlFacts, baseUrl: string): AssetRef[] {
+  const origin = new URL(baseUrl).origin;
+  const refs: AssetRef[] = [];
+  const seen = new Set<string>();
+
+  const add = (href: string, kind: AssetRef["kind"]) => {
+    let u: URL;
+    try { u = new URL(href, baseUrl); }
+    catch { return; }
+    if (u.origin !== origin || seen.has(u.href)) return;
+    seen.add(u.href);
+    refs.push({ url: u.href, kind });
+  };
+
+  for (const src of facts.scriptSrcs) add(src, "script");
+  for (const link of facts.links) {
+    if (link.rel.includes("stylesheet")) {
+      add(link.href, "stylesheet");
+    } else if (link.rel.includes("modulepreload") || (link.rel.includes("preload") && link.as === "script")) {
+      add(link.href, "script");
+    } else if (link.rel.includes("preload") && link.as === "style") {
+      add(link.href, "stylesheet");
+    }
+  }
+  return refs;
+}
+
+async function fetchAsset(ref: AssetRef, scheduler: FetchScheduler): Promise<Asset | null> {
+  try {
+    // Only the first 300kb per asset is read, to stay within Worker limits
+    const { response, body, url } = await scheduler.fetch(ref.url, {
+      timeoutMs: ASSET_TIMEOUT_MS,
+      retry: false,
+      maxBytes: MAX_ASSET_BYTES,
+      truncate: true,
+    });
+    if (!response.ok) return null;
+    const content = new TextDecoder().decode(body);
+    const asset: Asset = { ...ref, content };
+    if (ref.kind === "script") {
+      // The sourceMappingURL comment sits at the very end, past the part of a large bundle that was read
+      const truncated = body.byteLength >= MAX_ASSET_BYTES;
+      const mapRef = findSourceMapRef(truncated ? "" : content, response.headers)
+        ?? (truncated ? findSourceMapRef(await fetchTail(url, scheduler), response.headers) : null);
+      if (mapRef) asset.sourceMapRef = resolveMapRef(mapRef, url);
+    }
+    return asset;
+  } catch {
+    // Non-fatal — carry on without this asset
+    return null;
+  }
+}
+
+/** The last MAX_TAIL_BYTES of a bundle, by range request; empty when the server doesn't serve ranges. */
+async function fetchTail(url: string, scheduler: FetchScheduler): Promise<string> {
+  try {
+    const { response, body } = await scheduler.fetch(url, {
+      headers: { Range: `bytes=-${MAX_TAIL_BYTES}` },
+      timeoutMs: ASSET_TIMEOUT_MS,
+      retry: false,
+      maxBytes: MAX_TAIL_BYTES,
+      truncate: true,
+    });
+    // A 200 is the whole file again, whose head says nothing about the end
+    return response.status === 206 ? new TextDecoder().decode(body) : "";
+  } catch {
+    // Non-fatal — the bundle is kept, just without its source map
+    return "";
+  }
+}
+
+function resolveMapRef(ref: string, bundleUrl: string): string | undefined {
+  if (ref.startsWith("data:")) return undefined;
+  try {
+    const u = new URL(ref, bundleUrl);
+    return u.origin === new URL(bundleUrl).origin ? u.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function fetchSourceMap(ref: string, scheduler: FetchScheduler): Promise<Asset | null> {
+  try {
+    // Oversized maps are refused as they stream in (FetchError), never buffered whole
+    const { response, body } = await scheduler.fetch(ref, { timeoutMs: ASSET_TIMEOUT_MS, retry: false, maxBytes: MAX_SOURCE_MAP_BYTES });
+    if (!response.ok) return null;
+    const files = parseSourceMap(new TextDecoder().decode(body));
+    if (!files?.length) return null;
+    return { url: ref, kind: "sourcemap", content: sourceMapText(files), files };
+  } catch {
+    // Non-fatal — carry on without this map
+    return null;
+  }
+}
+
+function cached(cache: AssetCache | undefined, key: string, load: () => Promise<Asset | null>): Promise<Asset | null> {
+  if (!cache) return load();
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+  }
+  return pending;
+}
+
+export async function loadAssets(
+  facts: HtmlFacts,
+  baseUrl: string,
+  cache?: AssetCache,
+  scheduler: FetchScheduler = new FetchScheduler(),
+): Promise<Asset[]> {
+  const refs = findAssetRefs(facts, baseUrl).slice(0, MAX_ASSETS);
+
+  const loaded = await Promise.all(refs.map((ref) => cached(cache, ref.url, () => fetchAsset(ref, scheduler))));
+
+  const assets: Asset[] = [];
+  let total = 0;
+  for (const a of loaded) {
+    if (!a) continue;
+    if (total + a.content.length > MAX_TOTAL_ASSET_BYTES) break;
+    total += a.content.length;
+    assets.push(a);
+  }
+
+  // Source maps have a budget of their own (MAX_SOURCE_MAP_BYTES each)
+  const mapRefs = [...new Set(assets.flatMap((a) => (a.sourceMapRef ? [a.sourceMapRef] : [])))].slice(0, MAX_SOURCE_MAPS);
+  const maps = await Promise.all(mapRefs.map((ref) => cached(cache, ref, () => fetchSourceMap(ref, scheduler))));
+  for (const m of maps) if (m) assets.push(m);
+  return assets;
+}
@@ -0,0 +1,348 @@
+/**
+ * API keys and rate limiting for the detection endpoints.
+ *
+ * Clients send `Authorization: Bearer <key>`. Each key carries its own limits:
+ * requests per minute, requests per day and URLs per calendar month (a batch
+ * of 50 rows uses 50). Requests without a key are limited per client IP with
+ * ANONYMOUS_LIMITS, or rejected when API_KEY_REQUIRED is "true".
+ *
+ * Keys live in the API_KEYS KV namespace (in-memory when unbound). Counters
+ * live in RATE_LIMIT_COUNTERS Durable Objects, which increment atomically;
+ * without that binding they fall back to KV, where concurrent get-then-puts
+ * lose increments. Limits are checked before the request is charged, so
+ * concurrent requests can still overshoot slightly — they're a budget, not a
+ * hard guarantee. A store that fails answers 503 when the key can't be looked
+ * up; counters that fail are skipped for that request (fail open).
+ * Only a SHA-256 of each key is stored — the key itself is shown once on
+ * creation (see /api/admin/keys).
+ */
+
+import { sha256Hex } from "./_cache";
+import type { Env } from "./_env";
+
+/** 0 means unlimited. */
+export interface Limits {
+  perMinute: number;
+  perDay: number;
+  monthlyUrls: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;                // first 12 hex chars of the key hash
+  name: string;
+  createdAt: string;
+  limits: Limits;
+  disabled: boolean;
+}
+
+export const DEFAULT_KEY_LIMITS: Limits = { perMinute: 120, perDay: 20_000, monthlyUrls: 200_000 };
+const DEFAULT_ANONYMOUS_LIMITS: Limits = { perMinute: 30, perDay: 1000, monthlyUrls: 10_000 };
+
+const KEY_PREFIX = "abd_";
+const KEY_ID_LENGTH = 12;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export interface AuthStore {
+  getKey(hash: string): Promise<ApiKeyRecord | null>;
+  putKey(hash: string, record: ApiKeyRecord): Promise<void>;
+  /** Resolves a key id to its full hash. */
+  findKeyHash(id: string): Promise<string | null>;
+  deleteKey(hash: string): Promise<void>;
+  listKeys(): Promise<ApiKeyRecord[]>;
+  getCounter(name: string): Promise<number>;
+  incrementCounter(name: string, by: number, ttlSeconds: number): Promise<number>;
+}
+
+/** One RateLimitCounter object per counter name (see workers/rate-limit-counter.ts). */
+class DurableCounters {
+  constructor(private readonly ns: DurableObjectNamespace) {}
+
+  async add(name: string, by: number, ttlSeconds: number): Promise<number> {
+    const stub = this.ns.get(this.ns.idFromName(name));
+    const resp = await stub.fetch("https://counter/", { method: "POST", body: JSON.stringify({ by, ttlSeconds }) });
+    if (!resp.ok) throw new Error(`counter_http_${resp.status}`);
+    return (await resp.json<{ value: number }>()).value;
+  }
+}
+
+class KvAuthStore implements AuthStore {
+  private readonly counters: DurableCounters | null;
+
+  constructor(private readonly kv: KVNamespace, counters?: DurableObjectNamespace) {
+    this.counters = counters ? new DurableCounters(counters) : null;
+  }
+
+  async getKey(hash: string): Promise<ApiKeyRecord | null> {
+    return this.kv.get<ApiKeyRecord>(`key:${hash}`, "json");
+  }
+
+  async putKey(hash: string, record: ApiKeyRecord): Promise<void> {
+    await this.kv.put(`key:${hash}`, JSON.stringify(record));
+  }
+
+  async findKeyHash(id: string): Promise<string | null> {
+    const { keys } = await this.kv.list({ prefix: `key:${id}` });
+    return keys.length === 1 ? keys[0].name.slice("key:".length) : null;
+  }
+
+  async deleteKey(hash: string): Promise<void> {
+    await this.kv.delete(`key:${hash}`);
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    const records: ApiKeyRecord[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix: "key:", cursor });
+      const batch = await Promise.all(page.keys.map((k) => this.kv.get<ApiKeyRecord>(k.name, "json")));
+      for (const r of batch) if (r) records.push(r);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return records;
+  }
+
+  async getCounter(name: string): Promise<number> {
+    if (this.counters) return this.counters.add(name, 0, 0);
+    return parseInt((await this.kv.get(`count:${name}`)) ?? "0", 10) || 0;
+  }
+
+  async incrementCounter(name: string, by: number, ttlSeconds: number): Promise<number> {
+    if (this.counters) return this.counters.add(name, by, ttlSeconds);
+    // Not atomic: concurrent requests can overwrite each other's increments
+    const next = (await this.getCounter(name)) + by;
+    await this.kv.put(`count:${name}`, String(next), { expirationTtl: ttlSeconds });
+    return next;
+  }
+}
+
+export class MemoryAuthStore implements AuthStore {
+  private readonly keys = new Map<string, ApiKeyRecord>();
+  private readonly counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async getKey(hash: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(hash) ?? null;
+  }
+
+  async putKey(hash: string, record: ApiKeyRecord): Promise<void> {
+    this.keys.set(hash, record);
+  }
+
+  async findKeyHash(id: string): Promise<string | null> {
+    const matches = [...this.keys.keys()].filter((h) => h.startsWith(id));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  async deleteKey(hash: string): Promise<void> {
+    this.keys.delete(hash);
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    return [...this.keys.values()];
+  }
+
+  async getCounter(name: string): Promise<number> {
+    const c = this.counters.get(name);
+    if (!c || c.expiresAt <= Date.now()) return 0;
+    return c.value;
+  }
+
+  async incrementCounter(name: string, by: number, ttlSeconds: number): Promise<number> {
+    const value = (await this.getCounter(name)) + by;
+    this.counters.set(name, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return value;
+  }
+}
+
+const memoryStore = new MemoryAuthStore();
+
+export function getAuthStore(env: Env): AuthStore {
+  return env.API_KEYS ? new KvAuthStore(env.API_KEYS, env.RATE_LIMIT_COUNTERS) : memoryStore;
+}
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+export async function createApiKey(
+  store: AuthStore,
+  name: string,
+  limits: Partial<Limits> = {},
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const key = KEY_PREFIX + [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+  const hash = await sha256Hex(key);
+  const record: ApiKeyRecord = {
+    id: hash.slice(0, KEY_ID_LENGTH),
+    name,
+    createdAt: new Date().toISOString(),
+    limits: { ...DEFAULT_KEY_LIMITS, ...limits },
+    disabled: false,
+  };
+  await store.putKey(hash, record);
+  return { key, record };
+}
+
+/** Accepts a partial Limits object of non-negative integers; returns an error message otherwise. */
+export function parseLimits(raw: unknown): Partial<Limits> | string {
+  if (raw === undefined) return {};
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return "Expected 'limits' to be an object";
+  const limits: Partial<Limits> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (k !== "perMinute" && k !== "perDay" && k !== "monthlyUrls") return `Unknown limit '${k}'`;
+    if (!Number.isInteger(v) || (v as number) < 0) return `Limit '${k}' must be a non-negative integer`;
+    limits[k] = v as number;
+  }
+  return limits;
+}
+
+/** Guards /api/admin/*: null when the request carries ADMIN_TOKEN, otherwise the response to send. */
+export async function requireAdmin(request: Request, env: Env): Promise<Response | null> {
+  // Disabled unless a token is configured
+  if (!env.ADMIN_TOKEN) return Response.json({ error: "Admin API is disabled" }, { status: 404 });
+  const token = bearerToken(request);
+  // Compare digests so the comparison time doesn't depend on the token
+  if (!token || await sha256Hex(token) !== await sha256Hex(env.ADMIN_TOKEN)) {
+    return Response.json({ error: "Invalid admin token" }, { status: 401 });
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+export type RateLimitOutcome =
+  | { ok: true; headers: Record<string, string> }
+  | { ok: false; response: Response };
+
+function anonymousLimits(env: Env): Limits {
+  if (!env.ANONYMOUS_LIMITS) return DEFAULT_ANONYMOUS_LIMITS;
+  try {
+    return { ...DEFAULT_ANONYMOUS_LIMITS, ...JSON.parse(env.ANONYMOUS_LIMITS) as Partial<Limits> };
+  } catch {
+    console.warn("ANONYMOUS_LIMITS is not valid JSON, using defaults");
+    return DEFAULT_ANONYMOUS_LIMITS;
+  }
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  if (!header) return null;
+  const m = header.match(/^Bearer\s+(\S+)$/i);
+  return m ? m[1] : header.trim();
+}
+
+function limitResponse(status: number, error: string, headers: Record<string, string>, extra: object = {}): RateLimitOutcome {
+  return { ok: false, response: Response.json({ error, ...extra }, { status, headers }) };
+}
+
+/**
+ * Authenticate the request and charge it one request plus `urls` URLs.
+ * On success, returns the X-RateLimit-* headers to attach to the response;
+ * otherwise a ready 401/403/429 response, or 503 when the key store is
+ * unreachable. Rejected requests are not charged.
+ */
+export async function checkRateLimit(
+  request: Request,
+  env: Env,
+  urls: number,
+  corsHeaders: Record<string, string> = {},
+): Promise<RateLimitOutcome> {
+  const store = getAuthStore(env);
+  const token = bearerToken(request);
+
+  let subject: string;
+  let limits: Limits;
+  if (token) {
+    let record: ApiKeyRecord | null;
+    try {
+      record = await store.getKey(await sha256Hex(token));
+    } catch (err: unknown) {
+      console.warn(`API key lookup failed: ${(err as Error).message}`);
+      return limitResponse(503, "Rate limiter unavailable, try again shortly", { ...corsHeaders, "Retry-After": "5" });
+    }
+    if (!record) return limitResponse(401, "Invalid API key", corsHeaders);
+    if (record.disabled) return limitResponse(403, "API key is disabled", corsHeaders);
+    subject = `key:${record.id}`;
+    limits = record.limits;
+  } else {
+    if (env.API_KEY_REQUIRED === "true") {
+      return limitResponse(401, "Missing API key. Send 'Authorization: Bearer <key>'.", corsHeaders);
+    }
+    subject = `ip:${request.headers.get("cf-connecting-ip") ?? "unknown"}`;
+    limits = anonymousLimits(env);
+  }
+
+  const now = new Date();
+  const minuteWindow = Math.floor(now.getTime() / 60_000);
+  const day = now.toISOString().slice(0, 10);
+  const month = now.toISOString().slice(0, 7);
+  const secondsToMinute = 60 - now.getUTCSeconds();
+  const secondsToDay = Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime()) / 1000);
+  const secondsToMonth = Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - now.getTime()) / 1000);
+
+  const names = { minute: `${subject}:m:${minuteWindow}`, day: `${subject}:d:${day}`, month: `${subject}:u:${month}` };
+  let usedMinute: number, usedDay: number, usedMonth: number;
+  try {
+    [usedMinute, usedDay, usedMonth] = await Promise.all([
+      store.getCounter(names.minute), store.getCounter(names.day), store.getCounter(names.month),
+    ]);
+  } catch (err: unknown) {
+    // Non-fatal — an unreadable counter can't be enforced, so the request goes through uncharged
+    console.warn(`Rate-limit counters unavailable: ${(err as Error).message}`);
+    return { ok: true, headers: { ...corsHeaders } };
+  }
+
+  const headers = (minute: number, dayCount: number, monthUrls: number): Record<string, string> => {
+    const h: Record<string, string> = { ...corsHeaders };
+    const remaining = (limit: number, used: number) => String(Math.max(0, limit - used));
+    if (limits.perMinute) {
+      h["X-RateLimit-Limit"] = String(limits.perMinute);
+      h["X-RateLimit-Remaining"] = remaining(limits.perMinute, minute);
+      h["X-RateLimit-Reset"] = String(secondsToMinute);
+    }
+    if (limits.perDay) {
+      h["X-RateLimit-Limit-Day"] = String(limits.perDay);
+      h["X-RateLimit-Remaining-Day"] = remaining(limits.perDay, dayCount);
+    }
+    if (limits.monthlyUrls) {
+      h["X-RateLimit-Limit-Urls-Month"] = String(limits.monthlyUrls);
+      h["X-RateLimit-Remaining-Urls-Month"] = remaining(limits.monthlyUrls, monthUrls);
+    }
+    // Cross-origin callers can only read headers that are exposed explicitly
+    h["Access-Control-Expose-Headers"] = [...Object.keys(h).filter((k) => k.startsWith("X-RateLimit-")), "Retry-After"].join(", ");
+    return h;
+  };
+
+  const current = headers(usedMinute, usedDay, usedMonth);
+  if (limits.perMinute && usedMinute >= limits.perMinute) {
+    return limitResponse(429, `Rate limit exceeded: ${limits.perMinute} requests per minute. Retry in ${secondsToMinute}s.`,
+      { ...current, "Retry-After": String(secondsToMinute) }, { limit: "minute", retryAfter: secondsToMinute });
+  }
+  if (limits.perDay && usedDay >= limits.perDay) {
+    return limitResponse(429, `Rate limit exceeded: ${limits.perDay} requests per day. Resets at 00:00 UTC.`,
+      { ...current, "Retry-After": String(secondsToDay) }, { limit: "day", retryAfter: secondsToDay });
+  }
+  if (limits.monthlyUrls && usedMonth + urls > limits.monthlyUrls) {
+    const left = Math.max(0, limits.monthlyUrls - usedMonth);
+    return limitResponse(429, `Monthly quota exceeded: this request needs ${urls} URLs but only ${left} of ${limits.monthlyUrls} remain.`,
+      { ...current, "Retry-After": String(secondsToMonth) }, { limit: "month", retryAfter: secondsToMonth });
+  }
+
+  // KV rejects expirations under a minute; counters outlive their window slightly
+  try {
+    const [minute, dayCount, monthUrls] = await Promise.all([
+      store.incrementCounter(names.minute, 1, 120),
+      store.incrementCounter(names.day, 1, 2 * 24 * 60 * 60),
+      urls ? store.incrementCounter(names.month, urls, 32 * 24 * 60 * 60) : Promise.resolve(usedMonth),
+    ]);
+    return { ok: true, headers: headers(minute, dayCount, monthUrls) };
+  } catch (err: unknown) {
+    // Non-fatal — the request passed its limits; it just goes uncharged
+    console.warn(`Rate-limit counters unavailable: ${(err as Error).message}`);
+    return { ok: true, headers: current };
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Batch plumbing shared by /api/batch (synchronous, small lists) and
+ * /api/jobs (queued, large lists): request parsing, per-row detection and
+ * the enriched CSV output.
+ */
+
+import { cachedDetect, CacheInfo, cacheVariant, ResultCache, resultCacheKey } from "./_cache";
+import type { DohResolver } from "./_dns";
+import { Bucket, detectUrl, DetectionResult, errorResult, RenderInfo } from "./_detector";
+import { clampPages, detectSite } from "./_crawl";
+import type { FingerprintPack } from "./_fingerprints";
+import type { ProbeBudget } from "./_probes";
+import type { PageRenderer } from "./_renderer";
+import type { FetchScheduler } from "./_scheduler";
+import type { StackComponent } from "./_stack";
+
+// CF Workers have a CPU time limit — cap synchronous batches (and job chunks)
+// to avoid timeouts. Larger lists go through /api/jobs.
+export const MAX_BATCH = 50;
+
+export interface BatchInput {
+  headers: string[];
+  rows: Record<string, string>[];
+  urlColumn: string;
+  // Optional crawl mode: analyse up to N pages per site instead of the landing page only (clamped, see clampPages)
+  pages: number;
+  // fresh=1 / { fresh: true } bypasses the result cache
+  fresh: boolean;
+  // robots=1 / { robots: true } runs in compliant mode (see _identity.ts)
+  robots: boolean;
+  // probe=1 / { probe: true } requests platform endpoints (see _probes.ts)
+  probe: boolean;
+  // CSV uploads get a CSV back, JSON bodies get JSON
+  format: "csv" | "json";
+}
+
+export type BatchRow = DetectionResult & Partial<CacheInfo> & { originalRow: Record<string, string> };
+
+export class BatchInputError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "BatchInputError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Input: accept either a CSV file upload (multipart) or JSON body
+// ---------------------------------------------------------------------------
+
+export async function parseBatchInput(request: Request): Promise<BatchInput> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    const colOverride = (form.get("url_column") as string | null) ?? "";
+
+    if (!file || typeof file === "string") {
+      throw new BatchInputError("Expected a 'file' field in the form");
+    }
+
+    const parsed = parseCSV(await (file as File).text());
+    if (!parsed.rows.length) throw new BatchInputError("CSV has no data rows");
+
+    return {
+      headers: parsed.headers,
+      rows: parsed.rows,
+      urlColumn: findUrlColumn(parsed.headers, colOverride),
+      pages: clampPages(parseInt((form.get("pages") as string | null) ?? "1", 10)),
+      fresh: form.get("fresh") === "1",
+      robots: form.get("robots") === "1",
+      probe: form.get("probe") === "1",
+      format: "csv",
+    };
+  }
+
+  // JSON body: { urls: string[], pages?: number, fresh?: boolean, robots?: boolean, probe?: boolean }
+  let body: { urls?: string[]; pages?: number; fresh?: boolean; robots?: boolean; probe?: boolean };
+  try {
+    body = await request.json();
+  } catch {
+    throw new BatchInputError("Invalid JSON body");
+  }
+  if (!Array.isArray(body.urls) || !body.urls.length) {
+    throw new BatchInputError("Expected { urls: string[] } in JSON body");
+  }
+  return {
+    headers: ["url"],
+    rows: body.urls.map((u) => ({ url: String(u) })),
+    urlColumn: "url",
+    pages: typeof body.pages === "number" ? clampPages(body.pages) : 1,
+    fresh: body.fresh === true,
+    robots: body.robots === true,
+    probe: body.probe === true,
+    format: "json",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+export interface RowDetectContext {
+  pack: FingerprintPack;
+  cache: ResultCache;
+  ttlSeconds: number;
+  pages: number;
+  fresh: boolean;
+  // Compliant mode, after RESPECT_ROBOTS — results differ, so they are cached apart
+  robots: boolean;
+  // One per batch request / job chunk, so its limits span every row
+  scheduler: FetchScheduler;
+  // Null when rendering is off — rendered results are cached apart too
+  renderer: PageRenderer | null;
+  resolver: DohResolver | null;
+  // Null when probe mode is off
+  probes: ProbeBudget | null;
+}
+
+/**
+ * Detect one row. Never throws: a detection that fails unexpectedly becomes a
+ * `detection_failed` error row, so one bad site can't sink the whole batch.
+ */
+export async function detectRow(row: Record<string, string>, urlColumn: string, ctx: RowDetectContext): Promise<BatchRow> {
+  const url = (row[urlColumn] ?? "").trim();
+  if (!url) {
+    return { ...errorResult("", "", "empty_url"), originalRow: row };
+  }
+  try {
+    const key = await resultCacheKey(url, ctx.pack.version, cacheVariant(ctx.pages, ctx.robots, { render: !!ctx.renderer, probe: !!ctx.probes }));
+    const opts = { pack: ctx.pack, scheduler: ctx.scheduler, renderer: ctx.renderer, resolver: ctx.resolver, probes: ctx.probes };
+    const result = await cachedDetect(
+      { cache: ctx.cache, key, ttlSeconds: ctx.ttlSeconds, fresh: ctx.fresh },
+      () => ctx.pages > 1 ? detectSite(url, ctx.pages, opts) : detectUrl(url, opts),
+    );
+    return { ...result, originalRow: row };
+  } catch (err: unknown) {
+    console.warn(`Detection failed for ${url}: ${err instanceof Error ? err.message : String(err)}`);
+    return { ...errorResult(url, url, "detection_failed"), originalRow: row };
+  }
+}
+
+export function emptyBucketCounts(): Record<Bucket, number> {
+  return { "platform-assisted": 0, "ai-assisted": 0, "no-ai-signals": 0, "unknown": 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Output CSV: original columns + result columns
+// ---------------------------------------------------------------------------
+
+const RESULT_COLUMNS = [
+  "ai_bucket", "ai_bucket_confidence", "ai_platform", "ai_platform_score", "ai_score",
+  "ai_platform_confidence", "ai_platform_kind", "ai_platform_vendor", "ai_platform_homepage", "ai_hosting",
+  "ai_code", "ai_code_confidence", "ai_copy", "ai_copy_confidence",
+  "ai_stack_framework", "ai_stack_host", "ai_stack_ui", "ai_stack_analytics",
+  "ai_render", "ai_attempts", "ai_error",
+];
+
+export function resultCsvHeaders(originalHeaders: string[]): string[] {
+  return [...originalHeaders, ...RESULT_COLUMNS.filter((h) => !originalHeaders.includes(h))];
+}
+
+export function resultCsvLine(headers: string[], r: BatchRow): string {
+  const outRow = resultCsvRow(r);
+  return headers.map((h) => csvEscape(outRow[h] ?? "")).join(",");
+}
+
+/** A result as its CSV row: the original columns plus RESULT_COLUMNS, keyed by header. */
+export function resultCsvRow(r: BatchRow): Record<string, string> {
+  const outRow: Record<string, string> = { ...r.originalRow };
+  outRow["ai_bucket"]             = r.bucket;
+  outRow["ai_bucket_confidence"]  = r.bucketConfidence;
+  outRow["ai_platform"]           = r.platform ?? "";
+  outRow["ai_platform_score"]     = r.platformScore.toFixed(1);
+  outRow["ai_score"]              = r.aiScore.toFixed(1);
+  outRow["ai_platform_kind"]      = r.platformMeta?.kind ?? "";
+  outRow["ai_platform_vendor"]    = r.platformMeta?.vendor ?? "";
+  outRow["ai_platform_homepage"]  = r.platformMeta?.homepage ?? "";
+  // Per-verdict columns stay empty when the page was never analysed
+  if (r.verdicts) {
+    outRow["ai_platform_confidence"] = r.verdicts.platform.confidence;
+    outRow["ai_hosting"]             = r.verdicts.hosting.name ?? "";
+    outRow["ai_code"]                = String(r.verdicts.aiCode.detected);
+    outRow["ai_code_confidence"]     = r.verdicts.aiCode.confidence;
+    outRow["ai_copy"]                = String(r.verdicts.aiCopy.detected);
+    outRow["ai_copy_confidence"]     = r.verdicts.aiCopy.confidence;
+  }
+  if (r.stack) {
+    outRow["ai_stack_framework"]     = r.stack.framework ? stackLabel(r.stack.framework) : "";
+    outRow["ai_stack_host"]          = r.stack.host?.name ?? "";
+    outRow["ai_stack_ui"]            = r.stack.uiLibraries.map(stackLabel).join("; ");
+    outRow["ai_stack_analytics"]     = r.stack.analytics.map(stackLabel).join("; ");
+  }
+  outRow["ai_render"]             = r.render ? renderLabel(r.render) : "";
+  outRow["ai_attempts"]           = String(r.attempts);
+  outRow["ai_error"]              = r.error ?? "";
+  return outRow;
+}
+
+const stackLabel = (c: StackComponent) => (c.version ? `${c.name} ${c.version}` : c.name);
+const renderLabel = (r: RenderInfo) => (r.error ? `${r.renderer}: ${r.error}` : r.renderer);
+
+export function resultsToCsv(originalHeaders: string[], results: BatchRow[]): string {
+  const headers = resultCsvHeaders(originalHeaders);
+  return [headers.map(csvEscape).join(","), ...results.map((r) => resultCsvLine(headers, r))].join("\r\n");
+}
+
+// ---------------------------------------------------------------------------
+// CSV utilities
+// ---------------------------------------------------------------------------
+
+function parseCSV(text: string): { headers: string[]; rows: Record<string, string>[] } {
+  const lines = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n").trim().split("\n");
+  if (!lines.length) return { headers: [], rows: [] };
+
+  const headers = splitCSVRow(lines[0]);
+  const rows: Record<string, string>[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const values = splitCSVRow(line);
+    const row: Record<string, string> = {};
+    headers.forEach((h, idx) => { row[h] = values[idx] ?? ""; });
+    rows.push(row);
+  }
+
+  return { headers, rows };
+}
+
+function splitCSVRow(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === "," && !inQuotes) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+export function csvEscape(val: string): string {
+  if (val.includes(",") || val.includes('"') || val.includes("\n")) {
+    return `"${val.replace(/"/g, '""')}"`;
+  }
+  return val;
+}
+
+const URL_COLUMN_CANDIDATES = [
+  "url", "urls", "website", "websites",
+  "domain", "domains", "link", "links",
+  "site", "sites", "href",
+];
+
+function findUrlColumn(headers: string[], override: string): string {
+  if (override) {
+    const found = headers.find((h) => h.toLowerCase() === override.toLowerCase());
+    if (found) return found;
+    throw new BatchInputError(`Column '${override}' not found. Available: ${headers.join(", ")}`);
+  }
+  const lower = headers.map((h) => h.toLowerCase());
+  for (const c of URL_COLUMN_CANDIDATES) {
+    const idx = lower.indexOf(c);
+    if (idx !== -1) return headers[idx];
+  }
+  throw new BatchInputError(`Could not auto-detect URL column. Available: ${headers.join(", ")}. Use the 'url_column' field to specify it.`);
+}
@@ -0,0 +1,162 @@
+/**
+ * DetectionResult cache — the same popular domains show up in nearly every
+ * uploaded CSV, so results are cached per normalized URL.
+ *
+ * Backed by the RESULT_CACHE KV namespace when bound, otherwise by an
+ * in-memory map (local dev, tests). Keys include the detector, fingerprint
+ * pack and scoring model versions, so deploying new detector code or
+ * publishing a new pack invalidates every older entry automatically.
+ */
+
+import type { DetectionResult } from "./_detector";
+import { DETECTOR_VERSION, normalizeUrl } from "./_detector";
+import type { Env } from "./_env";
+import { BUNDLED_MODEL } from "./_model";
+
+export interface CacheInfo {
+  fromCache: boolean;
+  cachedAt: string | null;   // ISO timestamp of when the cached result was computed
+}
+
+interface CacheEntry<T> {
+  result: T;
+  cachedAt: string;
+}
+
+export interface ResultCache {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  put<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void>;
+}
+
+export const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+// KV rejects expirations shorter than a minute
+const MIN_CACHE_TTL_SECONDS = 60;
+const MEMORY_CACHE_MAX_ENTRIES = 1000;
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+class KvResultCache implements ResultCache {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return this.kv.get<CacheEntry<T>>(key, "json");
+  }
+
+  async put<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+    await this.kv.put(key, JSON.stringify(entry), { expirationTtl: ttlSeconds });
+  }
+}
+
+export class MemoryResultCache implements ResultCache {
+  private readonly entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const hit = this.entries.get(key);
+    if (!hit) return null;
+    if (hit.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return hit.entry as CacheEntry<T>;
+  }
+
+  async put<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+    // Map iteration order is insertion order — drop the oldest entries first
+    while (this.entries.size > MEMORY_CACHE_MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+const memoryCache = new MemoryResultCache();
+
+export function getResultCache(env: Env): ResultCache {
+  return env.RESULT_CACHE ? new KvResultCache(env.RESULT_CACHE) : memoryCache;
+}
+
+export function cacheTtlSeconds(env: Env): number {
+  const ttl = parseInt(env.RESULT_CACHE_TTL ?? "", 10);
+  if (!Number.isFinite(ttl)) return DEFAULT_CACHE_TTL_SECONDS;
+  return Math.max(ttl, MIN_CACHE_TTL_SECONDS);
+}
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+/** Scheme + lowercased host + path + query; fragments never change the page. */
+export function normalizeCacheUrl(rawUrl: string): string {
+  try {
+    const u = new URL(normalizeUrl(rawUrl));
+    u.hash = "";
+    return u.href;
+  } catch {
+    return rawUrl.trim().toLowerCase();
+  }
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * URLs are hashed to stay within KV's 512-byte key limit. `variant` separates
+ * results that differ for the same URL, e.g. crawl depth. New detector code
+ * and a retrained scoring model change results, so their versions are part
+ * of the key too.
+ */
+export async function resultCacheKey(rawUrl: string, packVersion: string, variant = ""): Promise<string> {
+  const versions = `d${DETECTOR_VERSION}:${packVersion}:${BUNDLED_MODEL.version}`;
+  return `result:${versions}:${variant}:${await sha256Hex(normalizeCacheUrl(rawUrl))}`;
+}
+
+/**
+ * The variant for a detection: crawl depth, whether robots.txt was honoured,
+ * and the optional phases that add evidence (SPA rendering, probes).
+ */
+export function cacheVariant(pages: number, robots: boolean, phases: { render?: boolean; probe?: boolean } = {}): string {
+  return `pages=${pages}${robots ? ";robots" : ""}${phases.render ? ";render" : ""}${phases.probe ? ";probe" : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Read-through helper
+// ---------------------------------------------------------------------------
+
+export interface CachedDetectOptions {
+  cache: ResultCache;
+  key: string;
+  ttlSeconds: number;
+  // Skip the lookup (fresh=1) — the new result still replaces the cached one
+  fresh?: boolean;
+}
+
+export async function cachedDetect<T extends DetectionResult>(
+  opts: CachedDetectOptions,
+  detect: () => Promise<T>,
+): Promise<T & CacheInfo> {
+  if (!opts.fresh) {
+    try {
+      const hit = await opts.cache.get<T>(opts.key);
+      if (hit) return { ...hit.result, fromCache: true, cachedAt: hit.cachedAt };
+    } catch {
+      // A failing cache must never fail detection
+    }
+  }
+
+  const result = await detect();
+  // Fetch failures are often transient — don't pin them for a whole TTL
+  if (result.bucket === "unknown") return { ...result, fromCache: false, cachedAt: null };
+
+  const cachedAt = new Date().toISOString();
+  try {
+    await opts.cache.put(opts.key, { result, cachedAt }, opts.ttlSeconds);
+  } catch {
+    // Non-fatal — the result is still returned
+  }
+  return { ...result, fromCache: false, cachedAt };
+}
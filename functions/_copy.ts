@@ -0,0 +1,154 @@
+/**
+ * Copy analysis — stylometric tells of LLM-written marketing text, computed
+ * on the page's visible text (HtmlFacts.visibleText and textBlocks).
+ *
+ * Word lists (AI_BUZZWORDS in _detector.ts) are easy to dodge; these look at
+ * structure instead: "not just X, but Y" contrasts, rule-of-three lists,
+ * em-dash density, emoji-prefixed bullets, "Whether you're… or…" openers and
+ * uniform sentence lengths. Each signal's matchedValue carries the snippets
+ * that triggered it so a reviewer can audit the flag.
+ *
+ * Human copy uses every one of these now and then, so the thresholds are
+ * densities or repeat counts, never a single occurrence at medium or above.
+ * A writer can also lean on one habit throughout, so scoring counts a lone
+ * ai_copy_* category for little unless another copy category backs it up
+ * (LONE_COPY_CATEGORY_CAP in _detector.ts).
+ */
+
+import type { Signal } from "./_detector";
+import type { HtmlFacts } from "./_html";
+
+// Below this much copy the densities are noise
+const MIN_WORDS = 80;
+const MAX_SNIPPETS = 3;
+const SNIPPET_CHARS = 80;
+// Blocks longer than this are paragraphs, not feature bullets
+const MAX_BULLET_CHARS = 140;
+const MIN_SENTENCES = 12;
+
+const CONTRAST_PATTERNS = [
+  /\b(?:is|are|isn['’]t|aren['’]t|it['’]s|not)\s+(?:just|only|merely|simply)\s+[^.!?;]{1,60}?[,;—–-]\s*(?:but|it['’]s|they['’]re|we['’]re)\b[^.!?]{0,60}/gi,
+  /\bmore than just\s+[^.!?]{1,60}/gi,
+];
+
+// "fast, simple, and secure" — one to two words per item
+const TRIAD_PATTERN = /\b[A-Za-z]+(?: [A-Za-z]+)?, [A-Za-z]+(?: [A-Za-z]+)?,? and [A-Za-z]+(?: [A-Za-z]+)?\b/g;
+
+const WHETHER_PATTERN = /\bwhether you['’]re\s+[^.!?]{1,120}?\bor\b[^.!?]{0,60}/gi;
+
+const EMOJI_BULLET = /^\p{Extended_Pictographic}️?\s*\S/u;
+
+const snippet = (s: string) => (s.length > SNIPPET_CHARS ? `${s.slice(0, SNIPPET_CHARS - 1)}…` : s).trim();
+const snippets = (matches: string[]) => matches.slice(0, MAX_SNIPPETS).map((m) => `"${snippet(m)}"`).join(" | ");
+
+function allMatches(text: string, patterns: RegExp[]): string[] {
+  return patterns.flatMap((re) => [...text.matchAll(re)].map((m) => m[0]));
+}
+
+/** Confidence from a count, given the minimum count for each level. */
+function byCount(n: number, low: number, medium: number, high: number): Signal["confidence"] | null {
+  if (n >= high) return "high";
+  if (n >= medium) return "medium";
+  if (n >= low) return "low";
+  return null;
+}
+
+export function detectCopySignals(facts: HtmlFacts): Signal[] {
+  const signals: Signal[] = [];
+  const text = facts.visibleText;
+  const words = (text.match(/\b\w+\b/g) ?? []).length;
+  if (words < MIN_WORDS) return signals;
+  const per1k = (n: number) => (n / words) * 1000;
+
+  // "Not just a tool, but a partner" — the LLM's favourite reframe
+  const contrasts = allMatches(text, CONTRAST_PATTERNS);
+  const contrastConf = byCount(contrasts.length, 1, 2, 4);
+  if (contrastConf) {
+    signals.push({
+      category: "ai_copy_contrast",
+      confidence: contrastConf,
+      description: `${contrasts.length} "not just X, but Y" construction${contrasts.length > 1 ? "s" : ""}`,
+      matchedValue: snippets(contrasts),
+    });
+  }
+
+  // Rule of three — judged by density, since lists of three are ordinary English
+  const triads = [...text.matchAll(TRIAD_PATTERN)].map((m) => m[0]);
+  const triadDensity = per1k(triads.length);
+  const triadConf = triads.length >= 5 && triadDensity >= 10 ? "high"
+    : triads.length >= 3 && triadDensity >= 6 ? "medium"
+    : triads.length >= 3 && triadDensity >= 3 ? "low"
+    : null;
+  if (triadConf) {
+    signals.push({
+      category: "ai_copy_triad",
+      confidence: triadConf,
+      description: `Rule-of-three lists — ${triads.length} in ${words} words (${triadDensity.toFixed(1)}/1k)`,
+      matchedValue: snippets(triads),
+    });
+  }
+
+  // Em dashes, the LLM punctuation mark
+  const dashes = [...text.matchAll(/[^—]{0,35}—[^—]{0,35}/g)].map((m) => m[0]);
+  const dashCount = (text.match(/—/g) ?? []).length;
+  const dashDensity = per1k(dashCount);
+  const dashConf = dashCount >= 6 && dashDensity >= 15 ? "high"
+    : dashCount >= 4 && dashDensity >= 8 ? "medium"
+    : dashCount >= 3 && dashDensity >= 4 ? "low"
+    : null;
+  if (dashConf) {
+    signals.push({
+      category: "ai_copy_em_dash",
+      confidence: dashConf,
+      description: `Em-dash density — ${dashCount} in ${words} words (${dashDensity.toFixed(1)}/1k)`,
+      matchedValue: snippets(dashes),
+    });
+  }
+
+  // "🚀 Lightning fast" feature bullets
+  const bullets = facts.textBlocks.filter((b) => b.length <= MAX_BULLET_CHARS && EMOJI_BULLET.test(b));
+  const bulletConf = byCount(bullets.length, 2, 3, 5);
+  if (bulletConf) {
+    signals.push({
+      category: "ai_copy_emoji_bullets",
+      confidence: bulletConf,
+      description: `${bullets.length} emoji-prefixed feature bullets`,
+      matchedValue: snippets(bullets),
+    });
+  }
+
+  // "Whether you're a startup or an enterprise…"
+  const openers = allMatches(text, [WHETHER_PATTERN]);
+  const openerConf = byCount(openers.length, 1, 2, 3);
+  if (openerConf) {
+    signals.push({
+      category: "ai_copy_whether_opener",
+      confidence: openerConf,
+      description: `${openers.length} "Whether you're… or…" opener${openers.length > 1 ? "s" : ""}`,
+      matchedValue: snippets(openers),
+    });
+  }
+
+  // Uniform sentence lengths — only sentences with terminal punctuation, so nav labels don't count
+  const sentences = facts.textBlocks
+    .flatMap((b) => b.match(/[^.!?]+[.!?]/g) ?? [])
+    .map((s) => s.trim())
+    .filter((s) => s.split(/\s+/).length >= 4);
+  if (sentences.length >= MIN_SENTENCES) {
+    const lengths = sentences.map((s) => s.split(/\s+/).length);
+    const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+    const sd = Math.sqrt(lengths.reduce((a, b) => a + (b - mean) ** 2, 0) / lengths.length);
+    const cv = sd / mean;
+    const conf = cv < 0.25 ? "medium" : cv < 0.33 ? "low" : null;
+    if (conf) {
+      signals.push({
+        category: "ai_copy_uniform_sentences",
+        confidence: conf,
+        description: `Uniform sentence lengths — ${sentences.length} sentences, ${mean.toFixed(0)} words on average, ${(cv * 100).toFixed(0)}% variation`,
+        matchedValue: snippets(sentences),
+      });
+    }
+  }
+
+  return signals;
+}
@@ -0,0 +1,212 @@
+/**
+ * Multi-page crawl mode.
+ *
+ * The landing page alone often misrepresents a site: a bespoke Webflow/Framer
+ * homepage can front a WordPress blog, or a Lovable pricing page. detectSite()
+ * discovers same-origin pages from sitemap.xml and in-page links, analyses each
+ * one, and returns per-page results plus one site-level verdict computed from
+ * the de-duplicated union of all page signals.
+ */
+
+import {
+  analyzePage,
+  classify,
+  DetectionResult,
+  DetectOptions,
+  fetchErrorResult,
+  fetchPage,
+  FetchedPage,
+  normalizeUrl,
+  PageAnalysis,
+  Signal,
+} from "./_detector";
+import { parseHtml } from "./_html";
+import { FetchScheduler } from "./_scheduler";
+
+export interface SiteDetectionResult extends DetectionResult {
+  pagesAnalyzed: number;
+  pages: DetectionResult[];
+}
+
+export const MAX_CRAWL_PAGES = 10;
+
+/** `pages` as the crawl will use it: a whole number from 1 to MAX_CRAWL_PAGES. */
+export function clampPages(pages: number): number {
+  return Math.max(1, Math.min(Math.floor(pages) || 1, MAX_CRAWL_PAGES));
+}
+
+// Sitemaps can be huge — only read enough to collect candidate URLs
+const MAX_SITEMAP_BYTES = 500_000;
+const SITEMAP_TIMEOUT_MS = 5000;
+
+// Links to non-HTML resources are never worth a page fetch
+const NON_PAGE_EXTENSIONS = /\.(?:jpe?g|png|gif|webp|avif|svg|ico|pdf|zip|gz|mp4|webm|mp3|woff2?|ttf|css|js|json|xml|txt)$/i;
+
+// ---------------------------------------------------------------------------
+// Page discovery
+// ---------------------------------------------------------------------------
+
+function sameOriginPageUrl(href: string, base: string, origin: string): string | null {
+  let u: URL;
+  try { u = new URL(href, base); }
+  catch { return null; }
+  if (u.origin !== origin) return null;
+  if (NON_PAGE_EXTENSIONS.test(u.pathname)) return null;
+  u.hash = "";
+  return u.href;
+}
+
+function extractLinks(html: string, base: string, origin: string): string[] {
+  const links: string[] = [];
+  for (const href of parseHtml(html).anchorHrefs) {
+    if (href.startsWith("#")) continue;
+    const u = sameOriginPageUrl(href, base, origin);
+    if (u) links.push(u);
+  }
+  return links;
+}
+
+async function fetchSitemapUrls(origin: string, scheduler: FetchScheduler): Promise<string[]> {
+  try {
+    const { response, body } = await scheduler.fetch(`${origin}/sitemap.xml`, {
+      timeoutMs: SITEMAP_TIMEOUT_MS,
+      retry: false,
+      maxBytes: MAX_SITEMAP_BYTES,
+      truncate: true,
+    });
+    if (!response.ok) return [];
+    const xml = new TextDecoder().decode(body);
+    const urls: string[] = [];
+    for (const m of xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)) {
+      // Nested sitemap indexes are skipped — one level is enough to sample a site
+      const u = sameOriginPageUrl(m[1].replace(/&amp;/g, "&"), origin, origin);
+      if (u) urls.push(u);
+    }
+    return urls;
+  } catch {
+    // Non-fatal — fall back to in-page links only
+    return [];
+  }
+}
+
+/**
+ * Pick up to `limit` distinct pages besides the landing page. Shallow paths are
+ * preferred so that sections like /blog and /pricing are sampled before deep
+ * article URLs under the same section.
+ */
+function selectPages(candidates: string[], landingUrl: string, limit: number): string[] {
+  const seen = new Set<string>([stripTrailingSlash(landingUrl)]);
+  const unique: string[] = [];
+  for (const c of candidates) {
+    const key = stripTrailingSlash(c);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(c);
+  }
+
+  const depth = (u: string) => new URL(u).pathname.split("/").filter(Boolean).length;
+  const sections = new Set<string>();
+  const firstPass: string[] = [];
+  const rest: string[] = [];
+  for (const u of [...unique].sort((a, b) => depth(a) - depth(b))) {
+    const section = new URL(u).pathname.split("/").filter(Boolean)[0] ?? "";
+    if (sections.has(section)) {
+      rest.push(u);
+    } else {
+      sections.add(section);
+      firstPass.push(u);
+    }
+  }
+  return [...firstPass, ...rest].slice(0, limit);
+}
+
+function stripTrailingSlash(u: string): string {
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+// ---------------------------------------------------------------------------
+// Signal aggregation
+// ---------------------------------------------------------------------------
+
+function dedupeSignals(signals: Signal[]): Signal[] {
+  const seen = new Set<string>();
+  return signals.filter((s) => {
+    const key = `${s.category}\u0000${s.description}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function mergeAnalyses(analyses: PageAnalysis[]): PageAnalysis {
+  const platformSignals: Record<string, Signal[]> = {};
+  const aiSignals: Signal[] = [];
+  for (const a of analyses) {
+    for (const [name, sigs] of Object.entries(a.platformSignals)) {
+      (platformSignals[name] ??= []).push(...sigs);
+    }
+    aiSignals.push(...a.aiSignals);
+  }
+  for (const name of Object.keys(platformSignals)) {
+    platformSignals[name] = dedupeSignals(platformSignals[name]);
+  }
+  // The landing page's stack, DNS, probes, asset hashes and rendering stand for the site
+  const { fingerprintVersion, platformMeta, stack, dns, probes, assetHashes, render } = analyses[0];
+  return { platformSignals, aiSignals: dedupeSignals(aiSignals), fingerprintVersion, platformMeta, stack, dns, probes, assetHashes, render };
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+export async function detectSite(rawUrl: string, maxPages: number, opts: DetectOptions = {}): Promise<SiteDetectionResult> {
+  const url = normalizeUrl(rawUrl);
+  const pageLimit = clampPages(maxPages);
+  // Pages of one site share a host budget, and usually bundles — fetch each asset once per crawl
+  const analyzeOpts = { ...opts, scheduler: opts.scheduler ?? new FetchScheduler(), assetCache: opts.assetCache ?? new Map() };
+
+  let landing: FetchedPage;
+  try {
+    landing = await fetchPage(url, analyzeOpts);
+  } catch (err: unknown) {
+    return { ...fetchErrorResult(rawUrl, url, err), pagesAnalyzed: 0, pages: [] };
+  }
+
+  const origin = new URL(landing.finalUrl).origin;
+  const candidates = pageLimit > 1
+    ? [...extractLinks(landing.html, landing.finalUrl, origin), ...await fetchSitemapUrls(origin, analyzeOpts.scheduler)]
+    : [];
+  const extraUrls = selectPages(candidates, landing.finalUrl, pageLimit - 1);
+
+  const fetched = await Promise.all(
+    extraUrls.map(async (pageUrl): Promise<{ url: string; page: FetchedPage } | { url: string; error: DetectionResult }> => {
+      try {
+        return { url: pageUrl, page: await fetchPage(pageUrl, analyzeOpts) };
+      } catch (err: unknown) {
+        return { url: pageUrl, error: fetchErrorResult(pageUrl, pageUrl, err) };
+      }
+    }),
+  );
+  // A page that redirects off the origin belongs to another site and says nothing about this one
+  const extraPages = fetched.filter((p) => !("page" in p) || new URL(p.page.finalUrl).origin === origin);
+
+  const landingAnalysis = await analyzePage(landing, analyzeOpts);
+  const analyses: PageAnalysis[] = [landingAnalysis];
+  const pages: DetectionResult[] = [{ ...classify(url, landing.finalUrl, landingAnalysis), attempts: landing.attempts ?? 1 }];
+
+  await Promise.all(extraPages.map(async (p, i) => {
+    if (!("page" in p)) {
+      pages[i + 1] = p.error;
+      return;
+    }
+    // Same origin as the landing page, whose DNS records, probes and favicon already count for the site
+    const analysis = await analyzePage(p.page, { ...analyzeOpts, resolver: null, probes: null, hashAssets: false });
+    analyses.push(analysis);
+    pages[i + 1] = { ...classify(p.url, p.page.finalUrl, analysis), attempts: p.page.attempts ?? 1 };
+  }));
+
+  const site = classify(rawUrl, landing.finalUrl, mergeAnalyses(analyses));
+  // Site-level attempts count every page fetch of the crawl
+  const attempts = pages.reduce((n, p) => n + p.attempts, 0);
+  return { ...site, attempts, pagesAnalyzed: analyses.length, pages };
+}
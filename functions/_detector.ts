@@ -9,6 +9,19 @@
  *   unknown            — could not fetch or analyse the page
  */
 
+import { Asset, AssetCache, loadAssets } from "./_assets";
+import { detectCopySignals } from "./_copy";
+import { apexOf, DnsRecords, DohResolver, inCidr, txtLabels } from "./_dns";
+import { BUNDLED_PACK, DnsRule, FingerprintPack, PatternEntry, PlatformFingerprint, PlatformKind, PlatformMeta } from "./_fingerprints";
+import { detectDefaultAssets, HashedAsset, loadHashedAssets, matchHashes } from "./_hashes";
+import { HtmlFacts, parseHtml } from "./_html";
+import { BUNDLED_MODEL, predict, Probabilities } from "./_model";
+import { BlockedTargetError, FetchError, FetchScheduler, isRetryableStatus } from "./_scheduler";
+import { ProbeBudget, ProbeSummary, runProbes } from "./_probes";
+import { PageRenderer, RenderError } from "./_renderer";
+import { detectStack, Stack } from "./_stack";
+import type { BlockedTarget } from "./_urlpolicy";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -18,388 +31,111 @@ export interface Signal {
   description: string;
   confidence: "high" | "medium" | "low";
   matchedValue: string;
+  // URL of the JS/CSS asset or source map the evidence came from (absent when found in the page HTML)
+  source?: string;
+  // Set when the evidence is a bundle's original sources, which minification can't disguise
+  via?: "source-map";
+  // Which document the evidence came from — set only when the page was rendered (see _renderer.ts)
+  dom?: "raw" | "rendered";
 }
 
 export type Bucket = "platform-assisted" | "ai-assisted" | "no-ai-signals" | "unknown";
 
+export type ConfidenceLabel = "high" | "medium" | "low" | "none";
+
+/** The rendering of an SPA shell: which backend, and why it failed (null on success). */
+export interface RenderInfo {
+  renderer: string;
+  error: string | null;
+}
+
+/** One label of the multi-label classification. */
+export interface Verdict {
+  detected: boolean;
+  confidence: ConfidenceLabel;
+  score: number;
+}
+
+/**
+ * Independent verdicts — a Framer site can also have LLM-written copy. The
+ * single `bucket` is derived from them by bucketFromVerdicts().
+ */
+export interface Verdicts {
+  // Built with a builder, CMS or AI generator; `name`/`kind` are set when detected
+  platform: Verdict & { name: string | null; kind: PlatformKind | null };
+  // Served from a hosting-only platform (static-host) — never counts as assisted
+  hosting: Verdict & { name: string | null };
+  // Markup/bundles produced by an AI coding tool (copy categories excluded)
+  aiCode: Verdict;
+  // Visible text written by an LLM
+  aiCopy: Verdict;
+}
+
+/** One category's share of a score: signal weights summed (raw), then capped. */
+export interface CategoryContribution {
+  category: string;
+  signals: number;
+  raw: number;
+  capped: number;
+}
+
+export interface ScoreBreakdown {
+  name: string;              // platform name, or "ai" for the heuristics
+  score: number;
+  threshold: number;
+  margin: number;            // score - threshold; negative when short of it
+  categories: CategoryContribution[];
+}
+
+/** Why a page landed in its bucket, and why the alternatives didn't win. */
+export interface Explanation {
+  // Winning platform (if any) first, then the top runners-up by score
+  platforms: ScoreBreakdown[];
+  ai: ScoreBreakdown;
+  rationale: string;
+}
+
 export interface DetectionResult {
   url: string;
   finalUrl: string;
   // Four-bucket classification
   bucket: Bucket;
-  bucketConfidence: "high" | "medium" | "low" | "none";
+  bucketConfidence: ConfidenceLabel;
   // Platform detector fields (populated when bucket === "platform-assisted")
   platform: string | null;
+  // Kind, vendor and homepage of `platform`, from the fingerprint pack
+  platformMeta: PlatformMeta | null;
   platformScore: number;
   platformSignals: Signal[];
   allPlatformScores: Record<string, number>;
   // AI heuristic fields (populated when bucket === "ai-assisted")
   aiScore: number;
   aiSignals: Signal[];
+  // Version of the fingerprint pack used (null when the page was never analysed)
+  fingerprintVersion: string | null;
+  // Page fetch attempts including retries (0 when nothing was fetched)
+  attempts: number;
   error: string | null;
+  // Set when error is "blocked_target": the URL (possibly a redirect hop) and why
+  blocked?: BlockedTarget;
+  // Framework, UI libraries, host and analytics (null when the page was never analysed)
+  stack: Stack | null;
+  // DNS records of the final hostname (null when DNS lookups are off or the page was never analysed)
+  dns: DnsRecords | null;
+  // What probe mode requested and matched (null when probing was off)
+  probes: ProbeSummary | null;
+  // Favicon and declared assets fetched and hashed, matched or not (null when the page was never analysed)
+  assetHashes: HashedAsset[] | null;
+  // Set when the page was an empty SPA shell and a renderer was configured
+  render: RenderInfo | null;
+  // Multi-label classification the bucket is derived from (null when the page was never analysed)
+  verdicts: Verdicts | null;
+  // Score breakdown behind the bucket (null when the page was never analysed)
+  explanation: Explanation | null;
+  // Bucket/platform probabilities from the scoring model, calibrated only if `calibrated` (see _model.ts)
+  probabilities: Probabilities | null;
 }
 
-type PatternEntry = [pattern: string, confidence: "high" | "medium" | "low", description: string];
-
-interface PlatformFingerprint {
-  hostname?: PatternEntry[];
-  http_header?: PatternEntry[];
-  meta_tag?: PatternEntry[];
-  html_comment?: PatternEntry[];
-  data_attribute?: PatternEntry[];
-  css_class?: PatternEntry[];
-  css_variable?: PatternEntry[];
-  js_global?: PatternEntry[];
-  dom_id?: PatternEntry[];
-  script_content?: PatternEntry[];
-  script_src?: PatternEntry[];
-  link_href?: PatternEntry[];
-  img_src?: PatternEntry[];
-  font?: PatternEntry[];
-}
-
-// ---------------------------------------------------------------------------
-// Platform fingerprints (existing)
-// ---------------------------------------------------------------------------
-
-const FINGERPRINTS: Record<string, PlatformFingerprint> = {
-
-  Framer: {
-    hostname: [
-      ["\\.framer\\.website$", "high", "Framer subdomain (.framer.website)"],
-      ["\\.framer\\.app$", "high", "Framer subdomain (.framer.app)"],
-      ["\\.framer\\.ai$", "high", "Framer subdomain (.framer.ai)"],
-    ],
-    http_header: [
-      ["^Framer/", "high", "Framer Server header"],
-      ["^framer$", "high", "Framer Server header (lowercase)"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']generator[\"'][^>]+content=[\"']Framer", "high", "Framer generator meta tag"],
-      ["<meta[^>]+content=[\"']Framer[^\"']*[\"'][^>]+name=[\"']generator[\"']", "high", "Framer generator meta tag (reversed)"],
-    ],
-    html_comment: [
-      ["Built with Framer", "high", "Framer build comment"],
-      ["framer\\.com", "medium", "Framer URL in HTML comment"],
-    ],
-    data_attribute: [
-      ["data-framer-component-type", "high", "Framer component attribute"],
-      ["data-framer-stack-", "high", "Framer stack layout attribute"],
-      ["data-framer-appear-id", "high", "Framer appear animation attribute"],
-      ["data-framer-name", "medium", "Framer name attribute"],
-    ],
-    css_class: [
-      ["\\bframer-[a-zA-Z0-9]{4,10}\\b", "medium", "Framer generated CSS class"],
-    ],
-    css_variable: [
-      ["--framer-font-family", "high", "Framer CSS font variable"],
-      ["--framer-text-color", "high", "Framer CSS text color variable"],
-      ["--framer-link-", "high", "Framer CSS link variable"],
-    ],
-    dom_id: [
-      ["id=[\"']__framer-badge-container[\"']", "high", "Framer badge (free tier)"],
-    ],
-    script_src: [
-      ["framerusercontent\\.com", "high", "Framer CDN (framerusercontent.com)"],
-      ["framerstatic\\.com", "high", "Framer static CDN"],
-      ["events\\.framer\\.com", "high", "Framer analytics endpoint"],
-    ],
-    link_href: [
-      ["framerusercontent\\.com", "high", "Framer CDN in stylesheet"],
-    ],
-  },
-
-  Webflow: {
-    hostname: [
-      ["\\.webflow\\.io$", "high", "Webflow subdomain (.webflow.io)"],
-    ],
-    html_comment: [
-      ["This site was created in Webflow", "high", "Webflow build comment"],
-      ["webflow\\.com", "medium", "Webflow URL in HTML comment"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+content=[\"']Webflow[\"'][^>]+name=[\"']generator[\"']", "high", "Webflow generator meta tag"],
-      ["<meta[^>]+name=[\"']generator[\"'][^>]+content=[\"']Webflow[\"']", "high", "Webflow generator meta tag (reversed)"],
-    ],
-    data_attribute: [
-      ["data-wf-domain", "high", "Webflow domain attribute"],
-      ["data-wf-page", "high", "Webflow page ID attribute"],
-      ["data-wf-site", "high", "Webflow site ID attribute"],
-      ["data-wf-experiences", "high", "Webflow experiences attribute"],
-      ["data-wf--button--variant", "high", "Webflow button component attribute"],
-      ["data-wf--nav--variant", "high", "Webflow nav component attribute"],
-    ],
-    css_class: [
-      ["\\bw-mod-js\\b", "high", "Webflow w-mod-js class"],
-      ["\\bw-richtext\\b", "high", "Webflow rich text class"],
-      ["\\bw-embed\\b", "high", "Webflow embed class"],
-      ["\\bw-dyn-list\\b", "high", "Webflow dynamic list class"],
-      ["\\bw-dyn-item\\b", "high", "Webflow dynamic item class"],
-      ["\\bw-nav\\b", "high", "Webflow nav class"],
-      ["\\bw-container\\b", "medium", "Webflow container class"],
-    ],
-    css_variable: [
-      ["--_color---primary--webflow-blue", "high", "Webflow brand CSS variable"],
-      ["--wst-button-", "high", "Webflow style token button variable"],
-    ],
-    js_global: [
-      ["window\\.wf\\b", "high", "Webflow JS global (window.wf)"],
-      ["window\\.webflowHost", "high", "Webflow JS host global"],
-      ["Webflow\\.push", "high", "Webflow.push() JS call"],
-    ],
-    script_src: [
-      ["cdn\\.prod\\.website-files\\.com", "high", "Webflow production CDN"],
-      ["d3e54v103j8qbb\\.cloudfront\\.net", "high", "Webflow CloudFront CDN"],
-    ],
-    link_href: [
-      ["cdn\\.prod\\.website-files\\.com", "high", "Webflow CDN stylesheet"],
-      ["\\.webflow\\.[a-f0-9]+-[a-f0-9]+\\.min\\.css", "high", "Webflow generated CSS filename"],
-    ],
-  },
-
-  Bolt: {
-    hostname: [
-      ["\\.bolt\\.new$", "high", "Bolt preview subdomain (.bolt.new)"],
-      ["\\.stackblitz\\.io$", "high", "StackBlitz preview (Bolt host)"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']bolt-version[\"']", "high", "Bolt version meta tag"],
-    ],
-    html_comment: [
-      ["bolt\\.new", "high", "bolt.new URL in HTML comment"],
-      ["<!--remix-island-start-->", "medium", "Remix island comment (Bolt uses Remix)"],
-    ],
-    css_variable: [
-      ["--bolt-elements-", "high", "Bolt CSS element variable"],
-      ["--bolt-ds-", "high", "Bolt design system CSS variable"],
-    ],
-    js_global: [
-      ["window\\.__allowDOMMutations", "high", "Bolt JS global (__allowDOMMutations)"],
-      ["window\\.__loadingPrompt", "high", "Bolt JS global (__loadingPrompt)"],
-      ["\"bolt_theme\"", "medium", "Bolt theme localStorage key"],
-    ],
-  },
-
-  "v0 (Vercel)": {
-    hostname: [
-      ["\\.v0\\.dev$", "high", "v0 subdomain (.v0.dev)"],
-      ["\\.v0\\.app$", "high", "v0 subdomain (.v0.app)"],
-      ["\\.vusercontent\\.net$", "high", "v0 vusercontent preview subdomain"],
-    ],
-    data_attribute: [
-      ["data-dpl-id=[\"']dpl_[a-zA-Z0-9]+[\"']", "high", "v0/Vercel deployment ID attribute"],
-    ],
-    script_src: [
-      ["/chat-static/_next/static/", "high", "v0 Next.js static bundle path"],
-      ["blobs\\.vusercontent\\.net", "high", "v0 blob storage CDN"],
-      ["generated\\.vusercontent\\.net", "high", "v0 generated asset CDN"],
-    ],
-    link_href: [
-      ["/chat-static/_next/static/", "high", "v0 Next.js static CSS path"],
-      ["vusercontent\\.net", "high", "v0 CDN in stylesheet"],
-    ],
-    css_class: [
-      ["\\bgeist\\b", "medium", "Geist font class (Vercel/v0 proprietary)"],
-    ],
-  },
-
-  Wix: {
-    hostname: [
-      ["\\.wix\\.com$", "high", "Wix subdomain (.wix.com)"],
-      ["\\.wixsite\\.com$", "high", "Wix subdomain (.wixsite.com)"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']generator[\"'][^>]+content=[\"']Wix\\.com", "high", "Wix generator meta tag"],
-      ["<meta[^>]+content=[\"']Wix\\.com[^\"']*[\"'][^>]+name=[\"']generator[\"']", "high", "Wix generator meta tag (reversed)"],
-    ],
-    dom_id: [
-      ["id=[\"']SITE_CONTAINER[\"']", "high", "Wix SITE_CONTAINER element"],
-      ["id=[\"']SITE_HEADER[\"']", "high", "Wix SITE_HEADER element"],
-      ["id=[\"']SITE_FOOTER[\"']", "high", "Wix SITE_FOOTER element"],
-      ["id=[\"']WIX_ADS[\"']", "high", "Wix ads element (free tier)"],
-      ["id=[\"']masterPage[\"']", "high", "Wix masterPage element"],
-    ],
-    script_content: [
-      ["wix-thunderbolt", "high", "Wix Thunderbolt renderer reference"],
-      ["\"applicationId\"\\s*:\\s*\"wix-", "high", "Wix application ID in JSON"],
-    ],
-    css_variable: [
-      ["--color_\\d+\\s*:", "medium", "Wix numbered color CSS variable"],
-      ["--font_\\d+\\s*:", "medium", "Wix numbered font CSS variable"],
-      ["--wix-ads-height", "high", "Wix ads height CSS variable"],
-    ],
-    data_attribute: [
-      ["data-testid=[\"']comp-[a-zA-Z0-9]+[\"']", "high", "Wix component testid (comp-*)"],
-      ["data-testid=[\"']mesh-container-content[\"']", "high", "Wix mesh container testid"],
-      ["data-testid=[\"']richTextElement[\"']", "high", "Wix rich text element testid"],
-      ["data-testid=[\"']linkElement[\"']", "high", "Wix link element testid"],
-      ["data-mesh-id=", "high", "Wix mesh layout ID attribute"],
-    ],
-    script_src: [
-      ["static\\.parastorage\\.com", "high", "Wix parastorage CDN"],
-      ["static\\.wixstatic\\.com", "high", "Wix static CDN"],
-      ["siteassets\\.parastorage\\.com", "high", "Wix site assets CDN"],
-    ],
-    link_href: [
-      ["static\\.parastorage\\.com", "high", "Wix parastorage CDN stylesheet"],
-      ["static\\.wixstatic\\.com", "high", "Wix static CDN stylesheet"],
-    ],
-  },
-
-  Lovable: {
-    hostname: [
-      ["\\.lovable\\.app$", "high", "Lovable preview subdomain (.lovable.app)"],
-      ["\\.gptengineer\\.app$", "high", "Lovable legacy subdomain (.gptengineer.app)"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']generator[\"'][^>]+content=[\"']Lovable", "high", "Lovable generator meta tag"],
-    ],
-    dom_id: [
-      ["id=[\"']lovable-badge[\"']", "high", "Lovable badge (free tier)"],
-    ],
-    html_comment: [
-      ["[Ll]ovable", "medium", "Lovable mention in HTML comment"],
-    ],
-    js_global: [
-      ["window\\.__lovable", "high", "Lovable JS global"],
-    ],
-    script_src: [
-      ["/lovable-uploads/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\\.[a-z]+", "high", "Lovable UUID uploads asset"],
-    ],
-    img_src: [
-      ["/lovable-uploads/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\\.[a-z]+", "high", "Lovable UUID uploads image"],
-    ],
-  },
-
-  WordPress: {
-    hostname: [
-      ["\\.wordpress\\.com$", "high", "WordPress.com subdomain"],
-    ],
-    http_header: [
-      ["WordPress", "high", "WordPress server header"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']generator[\"'][^>]+content=[\"']WordPress", "high", "WordPress generator meta tag"],
-      ["<meta[^>]+content=[\"']WordPress[^\"']*[\"'][^>]+name=[\"']generator[\"']", "high", "WordPress generator meta tag (reversed)"],
-    ],
-    html_comment: [
-      ["This site is optimized with the Yoast SEO plugin", "high", "Yoast SEO plugin comment (WordPress)"],
-      ["This page is optimized by the WP Super Cache", "high", "WP Super Cache comment (WordPress)"],
-      ["W3 Total Cache", "high", "W3 Total Cache plugin comment (WordPress)"],
-    ],
-    js_global: [
-      ["var wp\\b", "medium", "WordPress wp JS global"],
-      ["window\\.wp\\b", "high", "WordPress window.wp JS global"],
-      ["wp\\.data\\b", "high", "WordPress block editor wp.data"],
-      ["wpApiSettings", "high", "WordPress REST API settings global"],
-      ["wc_cart_fragments_params", "high", "WooCommerce cart fragments (WordPress)"],
-    ],
-    css_class: [
-      ["\\bwp-block-", "high", "WordPress block editor CSS class"],
-      ["\\bwp-content\\b", "high", "WordPress wp-content CSS class reference"],
-      ["\\bwp-singular\\b", "high", "WordPress body class wp-singular"],
-      ["\\bwp-emoji\\b", "medium", "WordPress emoji CSS class"],
-    ],
-    script_src: [
-      ["wp-content/", "high", "WordPress wp-content script path"],
-      ["wp-includes/js/", "high", "WordPress wp-includes JS"],
-      ["wp-emoji-release\\.min\\.js", "high", "WordPress emoji script"],
-    ],
-    link_href: [
-      ["wp-content/themes/", "high", "WordPress theme stylesheet"],
-      ["wp-content/plugins/", "high", "WordPress plugin stylesheet"],
-      ["wp-includes/css/", "high", "WordPress core CSS"],
-    ],
-    img_src: [
-      ["wp-content/uploads/", "high", "WordPress uploads image path"],
-    ],
-  },
-
-  Squarespace: {
-    hostname: [
-      ["\\.squarespace\\.com$", "high", "Squarespace subdomain (.squarespace.com)"],
-    ],
-    http_header: [
-      ["Squarespace", "high", "Squarespace server header"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']generator[\"'][^>]+content=[\"']Squarespace", "high", "Squarespace generator meta tag"],
-      ["<meta[^>]+content=[\"']Squarespace[^\"']*[\"'][^>]+name=[\"']generator[\"']", "high", "Squarespace generator meta tag (reversed)"],
-    ],
-    html_comment: [
-      ["Squarespace", "medium", "Squarespace mention in HTML comment"],
-    ],
-    js_global: [
-      ["window\\.SQUARESPACE_ROLLUPS", "high", "Squarespace JS rollups global"],
-      ["Static\\.SQUARESPACE_CONTEXT", "high", "Squarespace context global"],
-      ["Y\\.Squarespace", "high", "Squarespace YUI namespace"],
-    ],
-    css_class: [
-      ["\\bsqs-block\\b", "high", "Squarespace block CSS class"],
-      ["\\bsqs-layout\\b", "high", "Squarespace layout CSS class"],
-      ["\\bsqs-col-wrapper\\b", "high", "Squarespace col wrapper CSS class"],
-    ],
-    script_src: [
-      ["static\\d*\\.squarespace\\.com", "high", "Squarespace static CDN"],
-      ["squarespace\\.com/universal/scripts", "high", "Squarespace universal scripts"],
-    ],
-    link_href: [
-      ["static\\d*\\.squarespace\\.com", "high", "Squarespace CDN stylesheet"],
-    ],
-  },
-
-  Shopify: {
-    hostname: [
-      ["\\.myshopify\\.com$", "high", "Shopify subdomain (.myshopify.com)"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+name=[\"']shopify-checkout-api-token[\"']", "high", "Shopify checkout API token meta tag"],
-      ["<meta[^>]+name=[\"']shopify-digital-wallet[\"']", "high", "Shopify digital wallet meta tag"],
-    ],
-    js_global: [
-      ["Shopify\\.theme", "high", "Shopify.theme JS global"],
-      ["Shopify\\.shop", "high", "Shopify.shop JS global"],
-      ["Shopify\\.locale", "high", "Shopify.locale JS global"],
-      ["ShopifyAnalytics", "high", "ShopifyAnalytics JS global"],
-      ["window\\.Shopify", "high", "window.Shopify JS global"],
-      ["Shopify\\.currency", "high", "Shopify.currency JS global"],
-    ],
-    script_src: [
-      ["cdn\\.shopify\\.com", "high", "Shopify CDN script"],
-      ["shopify\\.com/s/files", "high", "Shopify files CDN script"],
-    ],
-    link_href: [
-      ["cdn\\.shopify\\.com", "high", "Shopify CDN stylesheet"],
-      ["shopify\\.com/s/files", "high", "Shopify files CDN stylesheet"],
-    ],
-    img_src: [
-      ["cdn\\.shopify\\.com", "high", "Shopify CDN image"],
-      ["shopify\\.com/s/files", "high", "Shopify files CDN image"],
-    ],
-  },
-
-  "GitHub Pages": {
-    hostname: [
-      ["\\.github\\.io$", "high", "GitHub Pages subdomain (.github.io)"],
-    ],
-    http_header: [
-      ["GitHub\\.com", "high", "GitHub.com server header"],
-    ],
-    html_comment: [
-      ["[Gg]it[Hh]ub\\s*[Cc]opilot|[Cc]opilot\\s*[Ww]orkspace", "low", "GitHub Copilot mention in HTML comment"],
-    ],
-  },
-
-  "Cursor AI": {
-    html_comment: [
-      ["[Cc]ursor\\s*[Aa][Ii]|built\\s+with\\s+[Cc]ursor", "low", "Cursor AI mention in HTML comment"],
-    ],
-    meta_tag: [
-      ["<meta[^>]+content=[\"'][Cc]ursor\\s*[Aa][Ii][\"']", "low", "Cursor AI meta tag"],
-    ],
-  },
-};
-
 // ---------------------------------------------------------------------------
 // AI heuristic signals
 // ---------------------------------------------------------------------------
@@ -414,60 +150,9 @@ const OVER_COMMENTER_PATTERNS = [
   /<!--\s*(This section|This is the|Navigation|Header section|Footer section|Main content|Hero section|This div|Wrapper for|Container for)/i,
 ];
 
-// shadcn/ui signatures: very specific class combos generated by shadcn components
-const SHADCN_PATTERNS = [
-  // Card component
-  /rounded-lg border bg-card text-card-foreground shadow/,
-  // Button variants
-  /inline-flex items-center justify-center (gap-2 )?whitespace-nowrap rounded-md text-sm font-medium/,
-  // Badge
-  /inline-flex items-center rounded-full border px-2\.5 py-0\.5 text-xs font-semibold/,
-  // Input
-  /flex h-(?:9|10) w-full rounded-md border border-input bg-background px-3 py-[12]/,
-  // Dialog overlay
-  /fixed inset-0 z-50 bg-black\/80/,
-  // Sheet / sidebar
-  /fixed inset-y-0 z-50 flex (h-full )?flex-col/,
-  // cn() utility function signature
-  /function cn\([^)]*\)\s*\{[\s\S]{0,100}clsx|twMerge/,
-  // @radix-ui import in bundle
-  /@radix-ui\//,
-];
-
-// Tailwind + Vite + React SPA combo
-const TAILWIND_PATTERNS = [
-  // Tailwind utility combos typical of AI output (verbose, stacked)
-  /class(?:Name)?="[^"]*(?:flex|grid)[^"]*(?:items-center|justify-between)[^"]*(?:gap-|space-)[^"]*"/,
-  // Tailwind responsive + dark mode prefixes (AI loves to add these by default)
-  /class(?:Name)?="[^"]*(?:sm:|md:|lg:|xl:|dark:){3,}[^"]*"/,
-  // Tailwind color scale pattern (AI defaults to specific shades)
-  /(?:bg|text|border)-(?:slate|gray|zinc|neutral|stone|blue|indigo|violet|purple)-(?:50|100|200|300|400|500|600|700|800|900|950)/,
-];
-
-const VITE_PATTERNS = [
-  // Vite default output: /assets/index-[hash].js
-  /\/assets\/index-[A-Za-z0-9_-]{6,12}\.js/,
-  // Vite CSS chunk
-  /\/assets\/index-[A-Za-z0-9_-]{6,12}\.css/,
-];
-
-const REACT_SPA_PATTERNS = [
-  // Standard React root mount point
-  /<div id="root">\s*<\/div>/,
-  // React root with empty content (SPA)
-  /<div id="app">\s*<\/div>/,
-];
-
-// Lucide icon signatures (SVG paths used by lucide-react)
-const LUCIDE_PATTERNS = [
-  // Lucide bundle name in script src
-  /lucide[-_]react/i,
-  // Lucide SVG viewBox + common path patterns
-  /lucide/i,
-  // Two common Lucide icon path segments that appear in inlined SVGs
-  /M\s*12\s+2[Cc]\s*6\.477\s+2/,   // circle-based icons
-  /M\s*3\s+12[Hh]\s*21/,           // arrow-right and similar
-];
+// Source map file layouts: shadcn's components/ui/ folder and "<Thing>Section" page components
+const SHADCN_UI_FILE = /(?:^|\/)components\/ui\/([a-z][a-z0-9-]*)\.[jt]sx$/;
+const SECTION_COMPONENT_FILE = /(?:^|\/)((?:Hero|Features?|Testimonials?|Pricing|CTA|Cta|FAQ|Faq|Contact|About|Stats|HowItWorks|Benefits|Services|Team|Newsletter|Footer|Header)Section)\.[jt]sx$/;
 
 // Hallucinated / placeholder link patterns
 const PLACEHOLDER_LINK_PATTERNS = [
@@ -491,24 +176,15 @@ const GENERIC_NAMING_PATTERNS = [
   /\bdata-(?:block|wrapper|element|component)="\d*"/gi,
 ];
 
-// Hosting platform signals (Option B)
-const PROTOTYPE_HOSTING_HOSTNAMES = [
-  /\.vercel\.app$/i,
-  /\.netlify\.app$/i,
-  /\.pages\.dev$/i,    // Cloudflare Pages
-  /\.onrender\.com$/i,
-  /\.fly\.dev$/i,
-  /\.railway\.app$/i,
-  /\.up\.railway\.app$/i,
-  /\.glitch\.me$/i,
-  /\.stackblitz\.io$/i,
-  /\.codesandbox\.io$/i,
-];
+// Hosts whose own subdomains (foo.vercel.app) are where AI prototypes get deployed
+const PROTOTYPE_HOSTS = new Set([
+  "Vercel", "Netlify", "Cloudflare Pages", "Render", "Fly.io", "Railway", "Glitch", "StackBlitz", "CodeSandbox",
+]);
 
-// AI generator meta tags (beyond platform-specific ones already covered)
+// AI generator meta tags (beyond platform-specific ones already covered —
+// Hostinger, Durable and 10Web have fingerprints of their own)
 const AI_GENERATOR_META_PATTERNS = [
-  /<meta[^>]+name=["']generator["'][^>]+content=["'][^"']*(?:Hostinger\s*AI|AI\s*Website|Durable\.co|10Web|Jimdo\s*AI|GoDaddy\s*AI|Wix\s*ADI|Zyro)[^"']*["']/i,
-  /<meta[^>]+content=["'][^"']*(?:Hostinger\s*AI|AI\s*Website|Durable\.co|10Web|Jimdo\s*AI|GoDaddy\s*AI|Wix\s*ADI|Zyro)[^"']*["'][^>]+name=["']generator["']/i,
+  /<meta[^>]+name=["']generator["'][^>]+content=["'][^"']*(?:AI\s*Website|Jimdo\s*AI|GoDaddy\s*AI|Wix\s*ADI)[^"']*["']/i,
 ];
 
 // AI marketing buzzwords — high density is a strong "slop" signal
@@ -562,20 +238,49 @@ const AI_BUZZWORDS = [
 // ---------------------------------------------------------------------------
 
 const CONFIDENCE_WEIGHTS: Record<string, number> = { high: 10, medium: 5, low: 2 };
-const MIN_PLATFORM_SCORE = 5;
-const MIN_AI_SCORE = 10;
+export const MIN_PLATFORM_SCORE = 5;
+export const MIN_AI_SCORE = 10;
+// Each AI verdict needs as much evidence of its own kind as the combined AI score
+const MIN_AI_CODE_SCORE = MIN_AI_SCORE;
+const MIN_AI_COPY_SCORE = MIN_AI_SCORE;
 const CATEGORY_CAP = 15;
-
-function scoreSignals(signals: Signal[]): number {
-  const byCategory: Record<string, number> = {};
+// AI heuristic categories that judge the visible text rather than the code (plus _copy.ts's ai_copy_*)
+const AI_COPY_CATEGORIES = new Set(["buzzword_density", "uniform_structure"]);
+const isCopyCategory = (category: string) => AI_COPY_CATEGORIES.has(category) || category.startsWith("ai_copy_");
+// One stylometric tell, however often it repeats, is a writing habit; with no
+// other copy category beside it, an ai_copy_* category counts at most this
+const LONE_COPY_CATEGORY_CAP = MIN_AI_SCORE / 2;
+// Platforms listed in an explanation besides the winner
+const EXPLAINED_RUNNERS_UP = 2;
+
+/** Per-category contributions, largest first. */
+function categoryContributions(signals: Signal[]): CategoryContribution[] {
+  const byCategory = new Map<string, CategoryContribution>();
   for (const sig of signals) {
-    const w = CONFIDENCE_WEIGHTS[sig.confidence] ?? 1;
-    byCategory[sig.category] = (byCategory[sig.category] ?? 0) + w;
+    const c = byCategory.get(sig.category) ?? { category: sig.category, signals: 0, raw: 0, capped: 0 };
+    c.signals++;
+    c.raw += CONFIDENCE_WEIGHTS[sig.confidence] ?? 1;
+    c.capped = Math.min(c.raw, CATEGORY_CAP);
+    byCategory.set(sig.category, c);
+  }
+  const copy = [...byCategory.values()].filter((c) => isCopyCategory(c.category));
+  if (copy.length === 1 && copy[0].category.startsWith("ai_copy_")) {
+    copy[0].capped = Math.min(copy[0].capped, LONE_COPY_CATEGORY_CAP);
   }
-  return Object.values(byCategory).reduce((sum, v) => sum + Math.min(v, CATEGORY_CAP), 0);
+  return [...byCategory.values()].sort((a, b) => b.capped - a.capped);
 }
 
-function confidenceLabel(score: number, min: number): "high" | "medium" | "low" | "none" {
+function scoreSignals(signals: Signal[]): number {
+  return categoryContributions(signals).reduce((sum, c) => sum + c.capped, 0);
+}
+
+function breakdown(name: string, signals: Signal[], threshold: number): ScoreBreakdown {
+  const categories = categoryContributions(signals);
+  const score = categories.reduce((sum, c) => sum + c.capped, 0);
+  return { name, score, threshold, margin: score - threshold, categories };
+}
+
+function confidenceLabel(score: number, min: number): ConfidenceLabel {
   if (score >= min * 3) return "high";
   if (score >= min * 1.5) return "medium";
   if (score >= min) return "low";
@@ -586,11 +291,11 @@ function confidenceLabel(score: number, min: number): "high" | "medium" | "low"
 // Pattern matching helpers
 // ---------------------------------------------------------------------------
 
-function matchAll(html: string, patterns: PatternEntry[], category: string): Signal[] {
+function matchAll(text: string, patterns: PatternEntry[], category: string): Signal[] {
   const signals: Signal[] = [];
   for (const [pat, conf, desc] of patterns) {
     const re = new RegExp(pat, "is");
-    const m = re.exec(html);
+    const m = re.exec(text);
     if (m) {
       signals.push({ category, confidence: conf, description: desc, matchedValue: m[0].slice(0, 120) });
     }
@@ -598,12 +303,9 @@ function matchAll(html: string, patterns: PatternEntry[], category: string): Sig
   return signals;
 }
 
-function matchTagSrcs(html: string, tagPattern: string, urlPatterns: PatternEntry[], category: string): Signal[] {
+function matchUrls(urls: string[], urlPatterns: PatternEntry[], category: string): Signal[] {
   const signals: Signal[] = [];
-  const tagRe = new RegExp(tagPattern, "gi");
-  let tagMatch: RegExpExecArray | null;
-  while ((tagMatch = tagRe.exec(html)) !== null) {
-    const src = tagMatch[1];
+  for (const src of urls) {
     for (const [pat, conf, desc] of urlPatterns) {
       if (new RegExp(pat, "i").test(src)) {
         signals.push({ category, confidence: conf, description: desc, matchedValue: src.slice(0, 120) });
@@ -614,6 +316,96 @@ function matchTagSrcs(html: string, tagPattern: string, urlPatterns: PatternEntr
   return signals;
 }
 
+/** One signal per matching rule; matchedValue is the record, e.g. `CNAME proxy-ssl.webflow.com`. */
+function matchDns(rules: DnsRule[], dns: DnsRecords): Signal[] {
+  const signals: Signal[] = [];
+  const apex = apexOf(dns.hostname);
+  for (const rule of rules) {
+    const re = rule.pattern ? new RegExp(rule.pattern, "i") : null;
+    let match: string | undefined;
+    if (rule.type === "CNAME") {
+      match = dns.cnames.find((c) => re?.test(c));
+    } else if (rule.type === "A") {
+      match = dns.addresses.find((a) => rule.cidr?.some((c) => inCidr(a, c)));
+    } else {
+      const name = rule.name ? `${rule.name}.${apex}` : apex;
+      const txt = dns.txt.find((t) => t.name === name && re?.test(t.value));
+      match = txt && `${txt.name} "${txt.value}"`;
+    }
+    if (match) {
+      signals.push({ category: "dns", confidence: rule.confidence, description: rule.description, matchedValue: `${rule.type} ${match}`.slice(0, 120) });
+    }
+  }
+  return signals;
+}
+
+type HtmlCategory = "meta_tag" | "html_comment" | "data_attribute" | "css_class"
+  | "css_variable" | "js_global" | "dom_id" | "script_content" | "font";
+
+/**
+ * The structural field each HTML-level fingerprint category matches against.
+ * Meta tags are canonicalised, so one pattern covers any attribute order.
+ */
+function fieldTexts(facts: HtmlFacts): Record<HtmlCategory, string> {
+  const inlineScripts = facts.inlineScripts.join("\n");
+  const inlineStyles = facts.inlineStyles.join("\n");
+  return {
+    meta_tag: facts.metaTags.join("\n"),
+    html_comment: facts.comments.join("\n"),
+    data_attribute: facts.dataAttributes.join("\n"),
+    css_class: facts.classes.join(" "),
+    css_variable: inlineStyles,
+    js_global: inlineScripts,
+    dom_id: facts.ids.map((id) => `id="${id}"`).join("\n"),
+    script_content: inlineScripts,
+    font: [...facts.links.map((l) => l.href), inlineStyles].join("\n"),
+  };
+}
+
+// Fingerprint categories worth matching inside each kind of external asset
+const ASSET_CATEGORIES: Record<Asset["kind"], Array<keyof PlatformFingerprint>> = {
+  script: ["js_global", "script_content", "css_variable", "css_class"],
+  stylesheet: ["css_variable", "css_class", "font"],
+  sourcemap: ["js_global", "script_content"],
+};
+
+interface SourceText {
+  source?: string;
+  text: string;
+}
+
+/** Distinct file names matching `re` (first capture group) across source maps, and the map with the most. */
+function countMapFiles(maps: Asset[], re: RegExp): { names: string[]; source?: string } {
+  const names = new Set<string>();
+  let best = 0;
+  let source: string | undefined;
+  for (const map of maps) {
+    const own = new Set((map.files ?? []).map((f) => f.path.match(re)?.[1]).filter((n): n is string => !!n));
+    for (const n of own) names.add(n);
+    if (own.size > best) {
+      best = own.size;
+      source = map.url;
+    }
+  }
+  return { names: [...names].sort(), source };
+}
+
+/** Sum hits over every source; `source` is whichever contributed the most. */
+function countAcross(sources: SourceText[], count: (text: string) => number): { hits: number; source?: string } {
+  let hits = 0;
+  let best = 0;
+  let source: string | undefined;
+  for (const s of sources) {
+    const n = count(s.text);
+    hits += n;
+    if (n > best) {
+      best = n;
+      source = s.source;
+    }
+  }
+  return { hits, source };
+}
+
 function extractHostname(url: string): string {
   try { return new URL(url).hostname.toLowerCase(); }
   catch { return url.toLowerCase(); }
@@ -623,12 +415,21 @@ function extractHostname(url: string): string {
 // Platform detector
 // ---------------------------------------------------------------------------
 
+function parseCookieNames(setCookie: string): string[] {
+  // Multiple Set-Cookie headers arrive comma-joined; Expires dates also contain
+  // commas, but their fragments never look like `name=` so they're skipped
+  return [...setCookie.matchAll(/(?:^|,)\s*([^=;,\s]+)=/g)].map((m) => m[1]);
+}
+
 function detectPlatform(
-  platform: string,
   fp: PlatformFingerprint,
-  html: string,
+  facts: HtmlFacts,
+  fields: Record<HtmlCategory, string>,
   headers: Record<string, string>,
   finalUrl: string,
+  assets: Asset[],
+  dns: DnsRecords | null,
+  hashed: HashedAsset[],
 ): Signal[] {
   const signals: Signal[] = [];
   const hostname = extractHostname(finalUrl);
@@ -650,56 +451,46 @@ function detectPlatform(
     }
   }
 
-  if (platform === "Wix") {
-    const pepyaka = headers["server"] ?? "";
-    if (/Pepyaka/i.test(pepyaka)) {
-      signals.push({ category: "http_header", confidence: "high", description: `Wix Pepyaka server [server: ${pepyaka}]`, matchedValue: pepyaka });
-    }
-    if ((headers["x-meta-site-is-wix-site"] ?? "").trim() === "1") {
-      signals.push({ category: "http_header", confidence: "high", description: "Wix site confirmation header", matchedValue: "1" });
+  if (fp.headers) {
+    for (const rule of fp.headers) {
+      const value = headers[rule.header] ?? "";
+      if (!value || (rule.pattern && !new RegExp(rule.pattern, "i").test(value))) continue;
+      signals.push({ category: "http_header", confidence: rule.confidence, description: `${rule.description} [${rule.header}: ${value.slice(0, 60)}]`, matchedValue: value.slice(0, 60) });
     }
   }
 
-  if (platform === "Bolt") {
-    const sv = headers["server-version"] ?? "";
-    if (sv) signals.push({ category: "http_header", confidence: "high", description: `Bolt server-version header [${sv.slice(0, 60)}]`, matchedValue: sv.slice(0, 60) });
-  }
+  if (fp.dns && dns) signals.push(...matchDns(fp.dns, dns));
+  if (fp.hashes) signals.push(...matchHashes(fp.hashes, hashed));
 
-  if (platform === "Shopify") {
-    // powered-by: Shopify — present even on headless stores
-    const poweredBy = headers["powered-by"] ?? headers["x-powered-by"] ?? "";
-    if (/shopify/i.test(poweredBy)) {
-      signals.push({ category: "http_header", confidence: "high", description: "Powered-By: Shopify header", matchedValue: poweredBy.slice(0, 60) });
-    }
-    // x-shopid — unique shop ID header leaked by Shopify infrastructure
-    const shopId = headers["x-shopid"] ?? "";
-    if (shopId) {
-      signals.push({ category: "http_header", confidence: "high", description: "x-shopid header (Shopify shop ID)", matchedValue: shopId.slice(0, 60) });
-    }
-    // shopify-complexity-score — Shopify rate-limiting header
-    const complexity = headers["shopify-complexity-score"] ?? "";
-    if (complexity !== "") {
-      signals.push({ category: "http_header", confidence: "high", description: "shopify-complexity-score header", matchedValue: complexity.slice(0, 30) });
-    }
-    // _shopify_essential cookie in set-cookie header
-    const cookie = headers["set-cookie"] ?? "";
-    if (/_shopify_/i.test(cookie)) {
-      signals.push({ category: "http_header", confidence: "high", description: "_shopify_* cookie set by Shopify infrastructure", matchedValue: "_shopify_*" });
+  if (fp.cookies) {
+    const cookieNames = parseCookieNames(headers["set-cookie"] ?? "");
+    for (const rule of fp.cookies) {
+      const re = new RegExp(rule.cookie, "i");
+      const name = cookieNames.find((n) => re.test(n));
+      if (name) signals.push({ category: "http_header", confidence: rule.confidence, description: rule.description, matchedValue: name.slice(0, 60) });
     }
   }
 
-  const htmlCategories: Array<keyof PlatformFingerprint> = [
-    "meta_tag", "html_comment", "data_attribute", "css_class",
-    "css_variable", "js_global", "dom_id", "script_content", "font",
-  ];
-  for (const cat of htmlCategories) {
-    const patterns = fp[cat] as PatternEntry[] | undefined;
-    if (patterns) signals.push(...matchAll(html, patterns, cat));
+  for (const [cat, text] of Object.entries(fields) as Array<[HtmlCategory, string]>) {
+    const patterns = fp[cat];
+    if (patterns && text) signals.push(...matchAll(text, patterns, cat));
   }
 
-  if (fp.script_src) signals.push(...matchTagSrcs(html, "<script[^>]+src=[\"']([^\"']+)[\"']", fp.script_src, "cdn_url"));
-  if (fp.link_href)  signals.push(...matchTagSrcs(html, "<link[^>]+href=[\"']([^\"']+)[\"']", fp.link_href, "cdn_url"));
-  if (fp.img_src)    signals.push(...matchTagSrcs(html, "<img[^>]+src=[\"']([^\"']+)[\"']", fp.img_src, "cdn_url"));
+  if (fp.script_src) signals.push(...matchUrls(facts.scriptSrcs, fp.script_src, "cdn_url"));
+  if (fp.link_href)  signals.push(...matchUrls(facts.links.map((l) => l.href), fp.link_href, "cdn_url"));
+  if (fp.img_src)    signals.push(...matchUrls(facts.imgSrcs, fp.img_src, "cdn_url"));
+
+  // External bundles/stylesheets — a pattern already matched in the HTML isn't counted twice
+  for (const asset of assets) {
+    for (const cat of ASSET_CATEGORIES[asset.kind]) {
+      const patterns = fp[cat] as PatternEntry[] | undefined;
+      if (!patterns) continue;
+      for (const sig of matchAll(asset.content, patterns, cat)) {
+        if (signals.some((s) => s.category === cat && s.description === sig.description)) continue;
+        signals.push(asset.kind === "sourcemap" ? { ...sig, source: asset.url, via: "source-map" } : { ...sig, source: asset.url });
+      }
+    }
+  }
 
   return signals;
 }
@@ -708,53 +499,60 @@ function detectPlatform(
 // AI heuristic detector
 // ---------------------------------------------------------------------------
 
-async function detectAiHeuristics(
-  html: string,
-  headers: Record<string, string>,
+function detectAiHeuristics(
+  facts: HtmlFacts,
+  stack: Stack,
   finalUrl: string,
-): Promise<Signal[]> {
+  assets: Asset[],
+): Signal[] {
   const signals: Signal[] = [];
   const hostname = extractHostname(finalUrl);
 
-  // Fetch first JS bundle for deeper analysis (same-origin, capped at 300kb)
-  let jsSource = "";
-  const scriptMatch = /src=["']([^"']*\/assets\/[^"']+\.js)['"]/i.exec(html);
-  if (scriptMatch) {
-    try {
-      const jsUrl = scriptMatch[1].startsWith("http")
-        ? scriptMatch[1]
-        : new URL(scriptMatch[1], finalUrl).href;
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), 5000);
-      try {
-        const resp = await fetch(jsUrl, { signal: controller.signal });
-        // Only read up to 300kb to stay within Worker limits
-        const buf = await resp.arrayBuffer();
-        jsSource = new TextDecoder().decode(buf.slice(0, 300_000));
-      } finally {
-        clearTimeout(timer);
-      }
-    } catch {
-      // Non-fatal — carry on without JS source
-    }
-  }
-
-  const fullSource = html + "\n" + jsSource;
+  // Structural fields re-serialised in the markup form the patterns below expect.
+  // Visible copy and arbitrary attribute values are deliberately left out.
+  const commentMarkup = facts.comments.map((c) => `<!--${c}-->`).join("\n");
+  const classMarkup = facts.classAttrs.map((c) => `class="${c}"`).join("\n");
+  const idMarkup = facts.ids.map((id) => `id="${id}"`).join("\n");
+  const inlineScripts = facts.inlineScripts.join("\n");
+  const assetUrls = [...facts.scriptSrcs, ...facts.links.map((l) => l.href)].join("\n");
+  const pageCode = [commentMarkup, inlineScripts, classMarkup, facts.svgPaths.join("\n"), assetUrls].join("\n");
+
+  // Fetched JS bundles are analysed alongside the page; stylesheets only feed
+  // the font check since utility-class patterns target markup, not compiled CSS
+  const scriptSources: SourceText[] = [
+    { text: pageCode },
+    ...assets.filter((a) => a.kind === "script").map((a) => ({ source: a.url, text: a.content })),
+  ];
+  const styleSources: SourceText[] = assets
+    .filter((a) => a.kind === "stylesheet")
+    .map((a) => ({ source: a.url, text: a.content }));
+  const fullSource = scriptSources.map((s) => s.text).join("\n");
+  // Original sources recovered from source maps — app files only, libraries have no content
+  const sourceMaps = assets.filter((a) => a.kind === "sourcemap");
+  const mapSources: SourceText[] = sourceMaps.map((m) => ({
+    source: m.url,
+    text: (m.files ?? []).flatMap((f) => (f.content !== null ? [f.content] : [])).join("\n"),
+  }));
 
   // ------------------------------------------------------------------
   // 1. Over-commenter detection
   // ------------------------------------------------------------------
-  let commentHits = 0;
-  for (const pat of OVER_COMMENTER_PATTERNS) {
-    const matches = fullSource.match(new RegExp(pat.source, pat.flags.includes("g") ? pat.flags : pat.flags + "g"));
-    commentHits += matches?.length ?? 0;
-  }
+  const countTutorialComments = (text: string) => {
+    let n = 0;
+    for (const pat of OVER_COMMENTER_PATTERNS) {
+      const matches = text.match(new RegExp(pat.source, pat.flags.includes("g") ? pat.flags : pat.flags + "g"));
+      n += matches?.length ?? 0;
+    }
+    return n;
+  };
+  const { hits: commentHits, source: commentSource } = countAcross(scriptSources, countTutorialComments);
   if (commentHits >= 5) {
     signals.push({
       category: "over_commenter",
       confidence: "high",
       description: `Tutorial-style comments detected (${commentHits} matches) — AI models over-explain trivial code`,
       matchedValue: String(commentHits),
+      source: commentSource,
     });
   } else if (commentHits >= 2) {
     signals.push({
@@ -762,61 +560,76 @@ async function detectAiHeuristics(
       confidence: "medium",
       description: `Some tutorial-style comments detected (${commentHits} matches)`,
       matchedValue: String(commentHits),
+      source: commentSource,
+    });
+  }
+  // Minification strips comments; the original sources still have them
+  const { hits: mapCommentHits, source: mapCommentSource } = countAcross(mapSources, countTutorialComments);
+  if (mapCommentHits >= 2) {
+    signals.push({
+      category: "over_commenter",
+      confidence: mapCommentHits >= 5 ? "high" : "medium",
+      description: `Tutorial-style comments in the original sources (${mapCommentHits} matches, from source map)`,
+      matchedValue: String(mapCommentHits),
+      source: mapCommentSource,
+      via: "source-map",
     });
   }
 
   // ------------------------------------------------------------------
   // 2. shadcn/ui signatures
   // ------------------------------------------------------------------
-  let shadcnHits = 0;
-  for (const pat of SHADCN_PATTERNS) {
-    if (pat.test(fullSource)) shadcnHits++;
-  }
-  if (shadcnHits >= 3) {
+  const shadcn = stack.uiLibraries.find((c) => c.name === "shadcn/ui");
+  if (shadcn && shadcn.evidence.length >= 3) {
     signals.push({
       category: "shadcn_ui",
       confidence: "high",
-      description: `shadcn/ui component signatures detected (${shadcnHits} patterns) — AI coding tools default to shadcn`,
-      matchedValue: String(shadcnHits),
+      description: `shadcn/ui component signatures detected (${shadcn.evidence.length} patterns) — AI coding tools default to shadcn`,
+      matchedValue: String(shadcn.evidence.length),
+      source: shadcn.source,
     });
-  } else if (shadcnHits >= 1) {
+  } else if (shadcn) {
     signals.push({
       category: "shadcn_ui",
       confidence: "medium",
-      description: `shadcn/ui component signatures detected (${shadcnHits} patterns)`,
-      matchedValue: String(shadcnHits),
+      description: `shadcn/ui component signatures detected (${shadcn.evidence.length} patterns)`,
+      matchedValue: String(shadcn.evidence.length),
+      source: shadcn.source,
+    });
+  }
+  const shadcnFiles = countMapFiles(sourceMaps, SHADCN_UI_FILE);
+  if (shadcnFiles.names.length) {
+    signals.push({
+      category: "shadcn_ui",
+      confidence: shadcnFiles.names.length >= 3 ? "high" : "medium",
+      description: `shadcn/ui component files in the original sources (${shadcnFiles.names.length} under components/ui/, from source map)`,
+      matchedValue: shadcnFiles.names.slice(0, 8).join(", "),
+      source: shadcnFiles.source,
+      via: "source-map",
     });
   }
 
   // ------------------------------------------------------------------
   // 3. Tailwind utility class patterns
   // ------------------------------------------------------------------
-  let tailwindHits = 0;
-  for (const pat of TAILWIND_PATTERNS) {
-    if (pat.test(fullSource)) tailwindHits++;
-  }
-  if (tailwindHits >= 2) {
+  const tailwind = stack.uiLibraries.find((c) => c.name === "Tailwind CSS");
+  if (tailwind && tailwind.evidence.length >= 2) {
     signals.push({
       category: "tailwind_stack",
       confidence: "medium",
       description: "Tailwind CSS utility pattern detected — common AI default stack",
-      matchedValue: String(tailwindHits),
+      matchedValue: String(tailwind.evidence.length),
     });
   }
 
   // ------------------------------------------------------------------
   // 4. Vite build artifacts
   // ------------------------------------------------------------------
-  let viteHits = 0;
-  for (const pat of VITE_PATTERNS) {
-    if (pat.test(html)) viteHits++;
-  }
-  if (viteHits >= 1) {
-    const reactSpa = REACT_SPA_PATTERNS.some((p) => p.test(html));
+  if (stack.buildTool?.name === "Vite") {
     signals.push({
       category: "vite_build",
-      confidence: reactSpa ? "medium" : "low",
-      description: reactSpa
+      confidence: stack.spaShell ? "medium" : "low",
+      description: stack.spaShell
         ? "Vite build artifacts + React SPA root — AI tools default to Vite + React"
         : "Vite build artifacts detected",
       matchedValue: "vite",
@@ -826,38 +639,47 @@ async function detectAiHeuristics(
   // ------------------------------------------------------------------
   // 5. Lucide icons
   // ------------------------------------------------------------------
-  const lucideHit = LUCIDE_PATTERNS.some((p) => p.test(fullSource));
-  if (lucideHit) {
+  const lucide = stack.uiLibraries.find((c) => c.name === "Lucide");
+  if (lucide) {
     signals.push({
       category: "lucide_icons",
       confidence: "medium",
       description: "Lucide icon library detected — heavily favoured by AI coding tools",
       matchedValue: "lucide",
+      source: lucide.source,
     });
   }
 
   // ------------------------------------------------------------------
   // 6. Inter font (Google Fonts or bundled)
   // ------------------------------------------------------------------
-  const interFont =
-    /fonts\.googleapis\.com[^"']*[Ii]nter/.test(html) ||
-    /font-family:[^;'"]*['"]Inter['"]/.test(fullSource) ||
-    /['"]Inter['"],/.test(fullSource);
+  const interFont = /fonts\.googleapis\.com[^"']*[Ii]nter/.test(assetUrls)
+    ? { text: assetUrls }
+    : [...scriptSources, { text: facts.inlineStyles.join("\n") }, ...styleSources].find((s) =>
+        /font-family:[^;'"]*['"]Inter['"]/.test(s.text) ||
+        /font-family:\s*Inter\s*[,;}]/.test(s.text) ||
+        /['"]Inter['"],/.test(s.text));
   if (interFont) {
     signals.push({
       category: "inter_font",
       confidence: "low",
       description: "Inter font detected — AI tools almost universally default to Inter",
       matchedValue: "Inter",
+      source: interFont.source,
     });
   }
 
   // ------------------------------------------------------------------
   // 7. Hallucinated / placeholder links
   // ------------------------------------------------------------------
+  const linkMarkup = [
+    ...facts.anchorHrefs.map((h) => `href="${h}"`),
+    ...facts.formActions.map((a) => `action="${a}"`),
+    inlineScripts,
+  ].join("\n");
   let placeholderHits = 0;
   for (const pat of PLACEHOLDER_LINK_PATTERNS) {
-    const m = html.match(new RegExp(pat.source, "gi"));
+    const m = linkMarkup.match(new RegExp(pat.source, "gi"));
     placeholderHits += m?.length ?? 0;
   }
   if (placeholderHits >= 3) {
@@ -879,9 +701,10 @@ async function detectAiHeuristics(
   // ------------------------------------------------------------------
   // 8. Generic numbered naming conventions
   // ------------------------------------------------------------------
+  const namingMarkup = [classMarkup, idMarkup, ...facts.dataAttributes].join("\n");
   let namingHits = 0;
   for (const pat of GENERIC_NAMING_PATTERNS) {
-    const m = html.match(new RegExp(pat.source, "gi"));
+    const m = namingMarkup.match(new RegExp(pat.source, "gi"));
     namingHits += m?.length ?? 0;
   }
   if (namingHits >= 4) {
@@ -899,12 +722,24 @@ async function detectAiHeuristics(
       matchedValue: String(namingHits),
     });
   }
+  // HeroSection.tsx, FeaturesSection.tsx, … — the file layout AI builders scaffold landing pages with
+  const sectionFiles = countMapFiles(sourceMaps, SECTION_COMPONENT_FILE);
+  if (sectionFiles.names.length >= 3) {
+    signals.push({
+      category: "generic_naming",
+      confidence: sectionFiles.names.length >= 5 ? "high" : "medium",
+      description: `Boilerplate "<Name>Section" component files (${sectionFiles.names.length}, from source map)`,
+      matchedValue: sectionFiles.names.join(", "),
+      source: sectionFiles.source,
+      via: "source-map",
+    });
+  }
 
   // ------------------------------------------------------------------
   // 9. Prototype hosting (no custom domain)
   // ------------------------------------------------------------------
-  const isPrototypeHost = PROTOTYPE_HOSTING_HOSTNAMES.some((p) => p.test(hostname));
-  if (isPrototypeHost) {
+  const host = stack.host;
+  if (host?.defaultDomain && PROTOTYPE_HOSTS.has(host.name)) {
     signals.push({
       category: "prototype_hosting",
       confidence: "medium",
@@ -914,32 +749,23 @@ async function detectAiHeuristics(
   }
 
   // ------------------------------------------------------------------
-  // 10. Vercel / Netlify hosting headers (custom domain but still on these platforms)
+  // 10. Vercel / Netlify hosting (custom domain but still on these platforms)
   // ------------------------------------------------------------------
-  const vercelId = headers["x-vercel-id"] ?? headers["x-vercel-cache"] ?? "";
-  if (vercelId && !isPrototypeHost) {
+  if (host && !host.defaultDomain && (host.name === "Vercel" || host.name === "Netlify")) {
     signals.push({
       category: "hosting_platform",
       confidence: "low",
-      description: "Hosted on Vercel (common AI-assisted site host)",
-      matchedValue: "vercel",
-    });
-  }
-  const netlifyHdr = headers["x-nf-request-id"] ?? headers["x-netlify"] ?? "";
-  if (netlifyHdr && !isPrototypeHost) {
-    signals.push({
-      category: "hosting_platform",
-      confidence: "low",
-      description: "Hosted on Netlify (common AI-assisted site host)",
-      matchedValue: "netlify",
+      description: `Hosted on ${host.name} (common AI-assisted site host)`,
+      matchedValue: host.name.toLowerCase(),
     });
   }
 
   // ------------------------------------------------------------------
-  // 11. AI generator meta tags (Hostinger AI, Durable, Wix ADI, etc.)
+  // 11. AI generator meta tags (Jimdo AI, GoDaddy AI, Wix ADI, etc.)
   // ------------------------------------------------------------------
+  const metaTags = facts.metaTags.join("\n");
   for (const pat of AI_GENERATOR_META_PATTERNS) {
-    const m = pat.exec(html);
+    const m = pat.exec(metaTags);
     if (m) {
       signals.push({
         category: "ai_generator_meta",
@@ -953,16 +779,10 @@ async function detectAiHeuristics(
 
   // ------------------------------------------------------------------
   // 12. AI buzzword / "slop" text density
-  // Strip visible text from HTML, count buzzword hits per 1000 words.
+  // Count buzzword hits per 1000 words of visible text.
   // A high density is a strong signal that copy was LLM-generated.
   // ------------------------------------------------------------------
-  const visibleText = html
-    .replace(/<script[\s\S]*?<\/script>/gi, " ")
-    .replace(/<style[\s\S]*?<\/style>/gi, " ")
-    .replace(/<!--[\s\S]*?-->/g, " ")
-    .replace(/<[^>]+>/g, " ")
-    .replace(/\s+/g, " ")
-    .toLowerCase();
+  const visibleText = facts.visibleText.toLowerCase();
 
   const wordCount = (visibleText.match(/\b\w+\b/g) ?? []).length;
   if (wordCount > 50) {
@@ -1029,9 +849,7 @@ async function detectAiHeuristics(
   // AI tends to generate <li> or <p> items of near-identical length.
   // Low variance in character length across 5+ items = soft signal.
   // ------------------------------------------------------------------
-  const listItems = [...html.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)]
-    .map(m => m[1].replace(/<[^>]+>/g, "").trim())
-    .filter(t => t.length > 10);
+  const listItems = facts.listItems.filter(t => t.length > 10);
 
   if (listItems.length >= 5) {
     const lengths = listItems.map(t => t.length);
@@ -1063,105 +881,401 @@ async function detectAiHeuristics(
 // Fetch helper
 // ---------------------------------------------------------------------------
 
-const BROWSER_HEADERS = {
-  "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
+// The User-Agent comes from the scheduler's identity (see _identity.ts)
+const PAGE_HEADERS: Record<string, string> = {
   "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
   "Accept-Language": "en-US,en;q=0.5",
 };
 
 // ---------------------------------------------------------------------------
-// Main entry point
+// Page fetch / analysis / classification
 // ---------------------------------------------------------------------------
 
-export async function detectUrl(rawUrl: string, timeoutMs = 15000): Promise<DetectionResult> {
-  let url = rawUrl.trim();
-  if (!url.startsWith("http://") && !url.startsWith("https://")) {
-    url = "https://" + url;
+/**
+ * Version of the detector code behind a result. Bump it with any change to
+ * what a result holds or how it is reached (heuristics, scoring, fields):
+ * it is part of the result cache key, so results of older code stop being
+ * served the moment the change deploys.
+ */
+export const DETECTOR_VERSION = 2;
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+// Longer pages are analysed on their head, which holds the markers that matter
+const MAX_PAGE_BYTES = 5_000_000;
+
+export interface FetchedPage {
+  html: string;
+  headers: Record<string, string>;
+  finalUrl: string;
+  // Absent for pages captured elsewhere (analyzeSnapshot, fixtures)
+  attempts?: number;
+}
+
+export interface AnalyzeOptions {
+  pack?: FingerprintPack;
+  assetCache?: AssetCache;
+  // Shared across a batch so concurrency limits span every row
+  scheduler?: FetchScheduler;
+  // Renders empty SPA shells; without one they're analysed as fetched
+  renderer?: PageRenderer | null;
+  // Looks up the final hostname's DNS records; without one there are no dns signals
+  resolver?: DohResolver | null;
+  // Probe mode (see _probes.ts): the budget for follow-up requests; absent or null is off
+  probes?: ProbeBudget | null;
+  // Fetch and hash the favicon and declared assets (see _hashes.ts); on unless false
+  hashAssets?: boolean;
+}
+
+export interface DetectOptions extends AnalyzeOptions {
+  timeoutMs?: number;
+}
+
+/** Raw signals for one page, before scoring. */
+export interface PageAnalysis {
+  platformSignals: Record<string, Signal[]>;
+  aiSignals: Signal[];
+  fingerprintVersion: string;
+  platformMeta: Record<string, PlatformMeta>;
+  stack: Stack;
+  dns: DnsRecords | null;
+  probes: ProbeSummary | null;
+  assetHashes: HashedAsset[];
+  render: RenderInfo | null;
+}
+
+export function normalizeUrl(rawUrl: string): string {
+  const url = rawUrl.trim();
+  // Other schemes are kept as-is so the URL policy can reject them
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    return "https://" + url;
   }
+  return url;
+}
 
-  let html = "";
-  let responseHeaders: Record<string, string> = {};
-  let finalUrl = url;
-  let fetchError: string | null = null;
+/**
+ * Fetch a page through the scheduler. A 429/5xx that survives every retry is
+ * an error rather than a page — its body is an error page, not the site.
+ */
+export async function fetchPage(url: string, opts: DetectOptions = {}): Promise<FetchedPage> {
+  const scheduler = opts.scheduler ?? new FetchScheduler();
+  const { response, body, url: scheduledUrl, attempts } = await scheduler.fetch(url, {
+    headers: PAGE_HEADERS,
+    timeoutMs: opts.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxBytes: MAX_PAGE_BYTES,
+    truncate: true,
+  });
+  if (isRetryableStatus(response.status)) throw new FetchError(`http_${response.status}`, attempts);
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((v, k) => { headers[k.toLowerCase()] = v; });
+  return { html: new TextDecoder().decode(body), headers, finalUrl: scheduledUrl, attempts };
+}
 
+/**
+ * Analyse an already-captured page and its assets. Performs no network access,
+ * so it can run on HTML captured elsewhere (see analyzeSnapshot).
+ */
+export function analyzeDocument(
+  page: FetchedPage,
+  assets: Asset[],
+  pack: FingerprintPack = BUNDLED_PACK,
+  facts: HtmlFacts = parseHtml(page.html),
+  dns: DnsRecords | null = null,
+  hashed: HashedAsset[] = [],
+): PageAnalysis {
+  const fields = fieldTexts(facts);
+  const platformSignals: Record<string, Signal[]> = {};
+  for (const [platform, fp] of Object.entries(pack.platforms)) {
+    platformSignals[platform] = detectPlatform(fp, facts, fields, page.headers, page.finalUrl, assets, dns, hashed);
+  }
+
+  // Run AI heuristic detector (always, regardless of platform result)
+  const stack = detectStack(facts, page.headers, page.finalUrl, assets);
+  const aiSignals = [
+    ...detectAiHeuristics(facts, stack, page.finalUrl, assets),
+    ...detectDefaultAssets(pack, hashed),
+    ...detectCopySignals(facts),
+  ];
+  const platformMeta = Object.fromEntries(Object.entries(pack.platforms).map(([name, fp]) => [name, fp.meta]));
+  return { platformSignals, aiSignals, fingerprintVersion: pack.version, platformMeta, stack, dns, probes: null, assetHashes: hashed, render: null };
+}
+
+export async function analyzePage(page: FetchedPage, opts: AnalyzeOptions = {}): Promise<PageAnalysis> {
+  // Parsed once here and shared with analyzeDocument
+  const facts = parseHtml(page.html);
+  const pack = opts.pack ?? BUNDLED_PACK;
+  const [assets, dns, hashed] = await Promise.all([
+    loadAssets(facts, page.finalUrl, opts.assetCache, opts.scheduler),
+    opts.resolver ? opts.resolver.lookup(extractHostname(page.finalUrl), txtLabels(pack)) : null,
+    opts.hashAssets === false ? [] : loadHashedAssets(facts, page.finalUrl, pack, opts.scheduler ?? new FetchScheduler()),
+  ]);
+  let raw = analyzeDocument(page, assets, pack, facts, dns, hashed);
+  if (opts.probes) raw = await withProbes(raw, page.finalUrl, pack, opts.scheduler ?? new FetchScheduler(), opts.probes);
+  if (!opts.renderer || !raw.stack.spaShell) return raw;
+
+  // An empty shell: the evidence is in the DOM its bundle builds
+  let html: string;
   try {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
-    let response: Response;
-    try {
-      response = await fetch(url, { headers: BROWSER_HEADERS, signal: controller.signal, redirect: "follow" });
-    } finally {
-      clearTimeout(timer);
-    }
-    finalUrl = response.url || url;
-    response.headers.forEach((v, k) => { responseHeaders[k.toLowerCase()] = v; });
-    html = await response.text();
+    html = await opts.renderer.render(page.finalUrl);
   } catch (err: unknown) {
-    fetchError = err instanceof Error ? err.message : String(err);
+    // Non-fatal — the raw HTML and bundles still get analysed
+    const error = err instanceof RenderError ? err.message : "render_failed";
+    return { ...raw, render: { renderer: opts.renderer.name, error } };
   }
+  // DNS and asset hashes are the raw analysis's; the rendered DOM only adds markup and copy
+  const rendered = analyzeDocument({ ...page, html }, assets, pack);
+  return { ...mergeRendered(raw, rendered), render: { renderer: opts.renderer.name, error: null } };
+}
 
-  if (fetchError) {
-    return {
-      url: rawUrl, finalUrl,
-      bucket: "unknown",
-      bucketConfidence: "none",
-      platform: null, platformScore: 0, platformSignals: [], allPlatformScores: {},
-      aiScore: 0, aiSignals: [],
-      error: fetchError,
-    };
+/** Probe signals added to each platform's; platforms with evidence already are probed first. */
+async function withProbes(
+  analysis: PageAnalysis,
+  finalUrl: string,
+  pack: FingerprintPack,
+  scheduler: FetchScheduler,
+  budget: ProbeBudget,
+): Promise<PageAnalysis> {
+  const candidates = Object.entries(analysis.platformSignals)
+    .map(([name, sigs]) => [name, scoreSignals(sigs)] as const)
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+  const { signals, summary } = await runProbes(pack, finalUrl, candidates, scheduler, budget);
+  const platformSignals = { ...analysis.platformSignals };
+  for (const [name, sigs] of Object.entries(signals)) platformSignals[name] = [...(platformSignals[name] ?? []), ...sigs];
+  return { ...analysis, platformSignals, probes: summary };
+}
+
+/**
+ * Raw and rendered signals side by side, each labelled with its document. A
+ * category the raw HTML or bundles already produced keeps its raw signals —
+ * the bundles were scanned for both, and the raw shell's wording (e.g. "React
+ * SPA root") is the more specific — so the rendered DOM only adds categories
+ * the shell couldn't show: copy, placeholder links, markup patterns.
+ */
+function mergeRendered(raw: PageAnalysis, rendered: PageAnalysis): PageAnalysis {
+  const merge = (a: Signal[], b: Signal[]) => {
+    const seen = new Set(a.map((s) => s.category));
+    return [
+      ...a.map((s): Signal => ({ ...s, dom: "raw" })),
+      ...b.filter((s) => !seen.has(s.category)).map((s): Signal => ({ ...s, dom: "rendered" })),
+    ];
+  };
+  const platformSignals: Record<string, Signal[]> = {};
+  for (const name of Object.keys(raw.platformSignals)) {
+    platformSignals[name] = merge(raw.platformSignals[name], rendered.platformSignals[name] ?? []);
   }
+  // The stack stays the raw page's — spaShell describes what the server sent
+  return { ...raw, platformSignals, aiSignals: merge(raw.aiSignals, rendered.aiSignals) };
+}
 
-  // --- Run platform detector ---
-  const allPlatformScores: Record<string, number> = {};
-  const allPlatformSignalsMap: Record<string, Signal[]> = {};
+export function errorResult(rawUrl: string, finalUrl: string, error: string, attempts = 0): DetectionResult {
+  return {
+    url: rawUrl, finalUrl,
+    bucket: "unknown",
+    bucketConfidence: "none",
+    platform: null, platformMeta: null, platformScore: 0, platformSignals: [], allPlatformScores: {},
+    aiScore: 0, aiSignals: [],
+    fingerprintVersion: null,
+    attempts,
+    error,
+    stack: null,
+    dns: null,
+    probes: null,
+    assetHashes: null,
+    render: null,
+    verdicts: null,
+    explanation: null,
+    probabilities: null,
+  };
+}
+
+export function fetchErrorResult(rawUrl: string, finalUrl: string, err: unknown): DetectionResult {
+  const attempts = err instanceof FetchError ? err.attempts : 1;
+  const result = errorResult(rawUrl, finalUrl, err instanceof Error ? err.message : String(err), attempts);
+  return err instanceof BlockedTargetError ? { ...result, blocked: err.blocked } : result;
+}
 
-  for (const [platform, fp] of Object.entries(FINGERPRINTS)) {
-    const sigs = detectPlatform(platform, fp, html, responseHeaders, finalUrl);
-    allPlatformScores[platform] = scoreSignals(sigs);
-    allPlatformSignalsMap[platform] = sigs;
+export function classify(rawUrl: string, finalUrl: string, analysis: PageAnalysis): DetectionResult {
+  const allPlatformScores: Record<string, number> = {};
+  for (const [name, sigs] of Object.entries(analysis.platformSignals)) {
+    allPlatformScores[name] = scoreSignals(sigs);
   }
 
-  const [bestPlatform, bestPlatformScore] = Object.entries(allPlatformScores)
-    .sort((a, b) => b[1] - a[1])[0] ?? ["", 0];
+  // Hosting-only platforms compete separately — they can't be the builder
+  const builderScores: Record<string, number> = {};
+  const hostingScores: Record<string, number> = {};
+  for (const [name, score] of Object.entries(allPlatformScores)) {
+    (countsAsAssisted(analysis.platformMeta[name]?.kind) ? builderScores : hostingScores)[name] = score;
+  }
+  const [bestPlatform, bestPlatformScore] = best(builderScores);
+  const [bestHost, bestHostScore] = best(hostingScores);
 
-  // --- Run AI heuristic detector (always, regardless of platform result) ---
-  const aiSignals = await detectAiHeuristics(html, responseHeaders, finalUrl);
+  const aiSignals = analysis.aiSignals;
   const aiScore = scoreSignals(aiSignals);
 
-  // --- Bucket decision ---
-  // Platform wins if it clears its threshold — it's the more specific classification.
-  // AI heuristic is the fallback.
-  let bucket: Bucket;
-  let bucketConfidence: "high" | "medium" | "low" | "none";
-  let platform: string | null = null;
-  let platformScore = 0;
-  let platformSignals: Signal[] = [];
-
-  if (bestPlatformScore >= MIN_PLATFORM_SCORE) {
-    bucket = "platform-assisted";
-    bucketConfidence = confidenceLabel(bestPlatformScore, MIN_PLATFORM_SCORE);
-    platform = bestPlatform;
-    platformScore = bestPlatformScore;
-    platformSignals = allPlatformSignalsMap[bestPlatform] ?? [];
-  } else if (aiScore >= MIN_AI_SCORE) {
-    bucket = "ai-assisted";
-    bucketConfidence = confidenceLabel(aiScore, MIN_AI_SCORE);
-  } else {
-    bucket = "no-ai-signals";
-    bucketConfidence = "none";
-  }
+  const detectedPlatform = bestPlatformScore >= MIN_PLATFORM_SCORE ? bestPlatform : null;
+  const verdicts: Verdicts = {
+    platform: {
+      ...verdict(bestPlatformScore, MIN_PLATFORM_SCORE),
+      name: detectedPlatform,
+      kind: detectedPlatform ? analysis.platformMeta[detectedPlatform]?.kind ?? null : null,
+    },
+    hosting: { ...verdict(bestHostScore, MIN_PLATFORM_SCORE), name: bestHostScore >= MIN_PLATFORM_SCORE ? bestHost : null },
+    aiCode: verdict(scoreSignals(aiSignals.filter((s) => !isCopyCategory(s.category))), MIN_AI_CODE_SCORE),
+    aiCopy: verdict(scoreSignals(aiSignals.filter((s) => isCopyCategory(s.category))), MIN_AI_COPY_SCORE),
+  };
+  const { bucket, bucketConfidence } = bucketFromVerdicts(verdicts, aiScore);
+
+  const platform = verdicts.platform.name;
+  const platformScore = platform ? bestPlatformScore : 0;
+  const platformSignals = platform ? analysis.platformSignals[platform] ?? [] : [];
 
+  const explanation = explain(bucket, platform, analysis, builderScores);
   return {
     url: rawUrl,
     finalUrl,
     bucket,
     bucketConfidence,
     platform,
+    platformMeta: platform ? analysis.platformMeta[platform] ?? null : null,
     platformScore,
     platformSignals,
     allPlatformScores,
     aiScore,
     aiSignals,
+    fingerprintVersion: analysis.fingerprintVersion,
+    attempts: 0,
     error: null,
+    stack: analysis.stack,
+    dns: analysis.dns,
+    probes: analysis.probes,
+    assetHashes: analysis.assetHashes,
+    render: analysis.render,
+    verdicts,
+    explanation,
+    probabilities: predict(BUNDLED_MODEL, explanation),
   };
 }
+
+function best(scores: Record<string, number>): [name: string, score: number] {
+  return Object.entries(scores).sort((a, b) => b[1] - a[1])[0] ?? ["", 0];
+}
+
+// A static host says where a site is served from, not how it was built
+const HOSTING_ONLY_KINDS: ReadonlySet<PlatformKind> = new Set(["static-host"]);
+
+/** Whether a platform of this kind can make a site "platform-assisted". Unknown kinds do. */
+export function countsAsAssisted(kind: PlatformKind | undefined): boolean {
+  return !kind || !HOSTING_ONLY_KINDS.has(kind);
+}
+
+function verdict(score: number, threshold: number): Verdict {
+  return { detected: score >= threshold, confidence: confidenceLabel(score, threshold), score };
+}
+
+/**
+ * Bucket policy — the single label for consumers that want one:
+ *
+ *   1. builder platform detected                  → platform-assisted (platform confidence)
+ *   2. AI code or AI copy detected, or their
+ *      combined AI score clears MIN_AI_SCORE      → ai-assisted (combined AI score confidence)
+ *   3. otherwise                                  → no-ai-signals
+ *
+ * Only kinds that countsAsAssisted() compete for verdicts.platform; a static
+ * host is reported as verdicts.hosting and never decides the bucket.
+ * The platform is the most specific answer, so it still names the bucket;
+ * AI authorship on a builder site shows in verdicts.aiCode / aiCopy. Rule 2's
+ * combined score keeps weak code and copy evidence adding up, as before (the
+ * combined score always covers a detected AI verdict).
+ */
+export function bucketFromVerdicts(verdicts: Verdicts, aiScore: number): { bucket: Bucket; bucketConfidence: ConfidenceLabel } {
+  if (verdicts.platform.detected) {
+    return { bucket: "platform-assisted", bucketConfidence: verdicts.platform.confidence };
+  }
+  if (verdicts.aiCode.detected || verdicts.aiCopy.detected || aiScore >= MIN_AI_SCORE) {
+    return { bucket: "ai-assisted", bucketConfidence: confidenceLabel(aiScore, MIN_AI_SCORE) };
+  }
+  return { bucket: "no-ai-signals", bucketConfidence: "none" };
+}
+
+function explain(
+  bucket: Bucket,
+  platform: string | null,
+  analysis: PageAnalysis,
+  allPlatformScores: Record<string, number>,
+): Explanation {
+  const ranked = Object.entries(allPlatformScores)
+    .filter(([name, score]) => score > 0 && name !== platform)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, EXPLAINED_RUNNERS_UP)
+    .map(([name]) => name);
+  const platforms = (platform ? [platform, ...ranked] : ranked)
+    .map((name) => breakdown(name, analysis.platformSignals[name] ?? [], MIN_PLATFORM_SCORE));
+  const ai = breakdown("ai", analysis.aiSignals, MIN_AI_SCORE);
+  return { platforms, ai, rationale: rationale(bucket, platforms, ai) };
+}
+
+function rationale(bucket: Bucket, platforms: ScoreBreakdown[], ai: ScoreBreakdown): string {
+  const fmt = (n: number) => Number(n.toFixed(1)).toString();
+  const top = (b: ScoreBreakdown) => b.categories[0] ? ` (mostly ${b.categories[0].category})` : "";
+  const [best, runnerUp] = platforms;
+
+  if (bucket === "platform-assisted") {
+    const lead = `${best.name} scored ${fmt(best.score)}${top(best)}, ${fmt(best.margin)} over the platform threshold of ${fmt(best.threshold)}.`;
+    return runnerUp ? `${lead} Runner-up ${runnerUp.name} scored ${fmt(runnerUp.score)}.` : lead;
+  }
+
+  const noPlatform = best
+    ? `No platform reached ${fmt(best.threshold)} (best: ${best.name} with ${fmt(best.score)}).`
+    : "No platform signals were found.";
+  if (bucket === "ai-assisted") {
+    return `${noPlatform} AI heuristics scored ${fmt(ai.score)}${top(ai)}, ${fmt(ai.margin)} over the threshold of ${fmt(ai.threshold)}.`;
+  }
+  return `${noPlatform} AI heuristics scored ${fmt(ai.score)}, ${fmt(-ai.margin)} short of ${fmt(ai.threshold)}.`;
+}
+
+// ---------------------------------------------------------------------------
+// Offline entry point — classify HTML the caller captured themselves
+// ---------------------------------------------------------------------------
+
+export interface SnapshotInput {
+  url: string;
+  html: string;
+  headers?: Record<string, string>;
+  // `kind` defaults to "stylesheet" for .css URLs and "script" otherwise
+  assets?: Array<{ url: string; content: string; kind?: Asset["kind"] }>;
+  // Records the caller resolved for the page's hostname
+  dns?: DnsRecords;
+}
+
+export function analyzeSnapshot(input: SnapshotInput, pack: FingerprintPack = BUNDLED_PACK): DetectionResult {
+  const finalUrl = normalizeUrl(input.url);
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(input.headers ?? {})) headers[k.toLowerCase()] = v;
+
+  const assets: Asset[] = (input.assets ?? []).map((a) => ({
+    url: new URL(a.url, finalUrl).href,
+    kind: a.kind ?? (/\.css(?:[?#]|$)/i.test(a.url) ? "stylesheet" : "script"),
+    content: a.content,
+  }));
+
+  return classify(input.url, finalUrl, analyzeDocument({ html: input.html, headers, finalUrl }, assets, pack, undefined, input.dns ?? null));
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+export async function detectUrl(rawUrl: string, opts: DetectOptions = {}): Promise<DetectionResult> {
+  const url = normalizeUrl(rawUrl);
+
+  let page: FetchedPage;
+  try {
+    page = await fetchPage(url, opts);
+  } catch (err: unknown) {
+    return fetchErrorResult(rawUrl, url, err);
+  }
+
+  return { ...classify(rawUrl, page.finalUrl, await analyzePage(page, opts)), attempts: page.attempts ?? 1 };
+}
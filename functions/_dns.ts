@@ -0,0 +1,152 @@
+/**
+ * DNS evidence — where a custom domain actually points.
+ *
+ * Sites on a custom domain can strip every HTML fingerprint, but their DNS
+ * still CNAMEs to `proxy-ssl.webflow.com` or `shops.myshopify.com`, points
+ * A records at a builder's IPs, or carries the TXT record the builder asked
+ * for to verify the domain. Records are looked up over DNS-over-HTTPS (the
+ * JSON API Cloudflare and Google both serve), since Workers have no resolver
+ * of their own, and matched against each fingerprint's `dns` rules in
+ * detectPlatform.
+ *
+ * One A query returns the whole CNAME chain along with the addresses; TXT is
+ * read at the apex and at each `_label.<apex>` a rule names (`_vercel`,
+ * `_webflow`). Lookups are best-effort: a failed query leaves its records
+ * out rather than failing the detection.
+ */
+
+import type { Env } from "./_env";
+import type { FingerprintPack } from "./_fingerprints";
+
+export interface TxtRecord {
+  name: string;
+  value: string;
+}
+
+export interface DnsRecords {
+  hostname: string;
+  // Targets in resolution order, without trailing dots
+  cnames: string[];
+  addresses: string[];
+  txt: TxtRecord[];
+}
+
+export const DEFAULT_DOH_RESOLVER = "https://cloudflare-dns.com/dns-query";
+const DNS_TIMEOUT_MS = 3_000;
+// A, apex TXT and a few `_label` TXT names
+const MAX_DNS_QUERIES = 8;
+
+// RR type numbers in DoH JSON answers
+const RR_A = 1;
+const RR_CNAME = 5;
+const RR_TXT = 16;
+
+interface DohAnswer {
+  name: string;
+  type: number;
+  data: string;
+}
+
+const stripDot = (name: string) => name.replace(/\.$/, "").toLowerCase();
+
+/** `"v=spf1 " "include:…"` — a TXT answer's quoted chunks, joined. */
+function txtValue(data: string): string {
+  const chunks = [...data.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) => m[1].replace(/\\(.)/g, "$1"));
+  return chunks.length ? chunks.join("") : data;
+}
+
+/**
+ * The name verification records hang off: the hostname without `www.`.
+ * Without a public suffix list `shop.example.co.uk` stays as it is, which
+ * only costs the apex TXT lookup for such hosts.
+ */
+export function apexOf(hostname: string): string {
+  return hostname.replace(/^www\./, "");
+}
+
+/** Every `_label` a TXT rule in the pack asks about. */
+export function txtLabels(pack: FingerprintPack): string[] {
+  const labels = new Set<string>();
+  for (const fp of Object.values(pack.platforms)) {
+    for (const rule of fp.dns ?? []) if (rule.type === "TXT" && rule.name) labels.add(rule.name);
+  }
+  return [...labels];
+}
+
+export class DohResolver {
+  constructor(
+    private readonly endpoint: string,
+    private readonly timeoutMs = DNS_TIMEOUT_MS,
+  ) {}
+
+  private async query(name: string, type: "A" | "TXT"): Promise<DohAnswer[]> {
+    const url = new URL(this.endpoint);
+    url.searchParams.set("name", name);
+    url.searchParams.set("type", type);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const resp = await fetch(url.href, { headers: { Accept: "application/dns-json" }, signal: controller.signal });
+      if (!resp.ok) return [];
+      const body = await resp.json<{ Status?: number; Answer?: DohAnswer[] }>();
+      // Status 0 is NOERROR; NXDOMAIN and SERVFAIL have nothing to match
+      return body.Status === 0 && Array.isArray(body.Answer) ? body.Answer : [];
+    } catch {
+      // Non-fatal — a missing record set is just less evidence
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async lookup(hostname: string, labels: string[] = []): Promise<DnsRecords> {
+    const apex = apexOf(hostname);
+    const txtNames = [...new Set([apex, ...labels.map((l) => `${l}.${apex}`)])].slice(0, MAX_DNS_QUERIES - 1);
+    const [a, ...txt] = await Promise.all([
+      this.query(hostname, "A"),
+      ...txtNames.map((n) => this.query(n, "TXT")),
+    ]);
+    return {
+      hostname,
+      cnames: a.filter((r) => r.type === RR_CNAME).map((r) => stripDot(r.data)),
+      addresses: a.filter((r) => r.type === RR_A).map((r) => r.data),
+      txt: txt.flat()
+        .filter((r) => r.type === RR_TXT)
+        .map((r) => ({ name: stripDot(r.name), value: txtValue(r.data) })),
+    };
+  }
+}
+
+/** The configured resolver; DOH_RESOLVER="off" disables DNS evidence. */
+export function getResolver(env: Env): DohResolver | null {
+  if (env.DOH_RESOLVER === "off") return null;
+  return new DohResolver(env.DOH_RESOLVER || DEFAULT_DOH_RESOLVER);
+}
+
+// ---------------------------------------------------------------------------
+// Address ranges
+// ---------------------------------------------------------------------------
+
+function ipv4ToInt(addr: string): number | null {
+  const m = addr.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!m) return null;
+  const parts = m.slice(1).map(Number);
+  if (parts.some((p) => p > 255)) return null;
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+/** Whether `cidr` is a valid IPv4 range such as `23.227.38.0/24`. */
+export function isCidr(cidr: string): boolean {
+  const [base, bits] = cidr.split("/");
+  return ipv4ToInt(base) !== null && /^\d{1,2}$/.test(bits ?? "") && Number(bits) <= 32;
+}
+
+export function inCidr(addr: string, cidr: string): boolean {
+  const [base, bits] = cidr.split("/");
+  const a = ipv4ToInt(addr);
+  const b = ipv4ToInt(base);
+  if (a === null || b === null) return false;
+  const prefix = Number(bits);
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return ((a & mask) >>> 0) === ((b & mask) >>> 0);
+}
@@ -0,0 +1,33 @@
+/**
+ * Bindings available to Pages Functions. Every binding is optional so the
+ * functions also run under `wrangler pages dev` without any configured.
+ */
+import type { JobMessage } from "./_jobs";
+
+export interface Env {
+  // Runtime fingerprint packs (see _fingerprints.ts)
+  FINGERPRINT_PACKS?: KVNamespace;
+  // DetectionResult cache (see _cache.ts); TTL in seconds
+  RESULT_CACHE?: KVNamespace;
+  RESULT_CACHE_TTL?: string;
+  // Batch jobs (see _jobs.ts): state in KV, chunks on a Cloudflare Queue
+  JOBS?: KVNamespace;
+  JOB_QUEUE?: Queue<JobMessage>;
+  // API keys and rate-limit counters (see _auth.ts)
+  API_KEYS?: KVNamespace;
+  RATE_LIMIT_COUNTERS?: DurableObjectNamespace;  // atomic counters (workers/rate-limit-counter.ts); KV when unbound
+  API_KEY_REQUIRED?: string;         // "true" rejects requests without a key
+  ANONYMOUS_LIMITS?: string;         // JSON, e.g. {"perMinute":30,"perDay":1000,"monthlyUrls":10000}
+  ADMIN_TOKEN?: string;              // secret for /api/admin/keys; unset disables it
+  // Fetch identity and robots.txt compliance (see _identity.ts)
+  FETCH_IDENTITY?: string;           // "crawler" sends CRAWLER_NAME instead of the browser UA
+  CRAWLER_NAME?: string;
+  CRAWLER_CONTACT_URL?: string;
+  RESPECT_ROBOTS?: string;           // "true" runs every request in compliant mode
+  // Rendering of empty SPA shells (see _renderer.ts); unset leaves shells unrendered
+  BROWSER_RENDERING_ACCOUNT_ID?: string;
+  BROWSER_RENDERING_API_TOKEN?: string;
+  RENDERER_URL?: string;             // local rendering service, used when Browser Rendering isn't configured
+  // DNS evidence (see _dns.ts): DoH JSON endpoint, Cloudflare's by default; "off" disables lookups
+  DOH_RESOLVER?: string;
+}
@@ -0,0 +1,420 @@
+/**
+ * Fingerprint packs — declarative, versioned platform knowledge.
+ *
+ * A pack is plain JSON (see _fingerprints.json for the bundled default):
+ *
+ *   {
+ *     "schema": 2,
+ *     "version": "2.0.0",
+ *     "platforms": {
+ *       "Framer": {
+ *         "meta":     { "kind": "no-code", "vendor": "Framer B.V.", "homepage": "https://www.framer.com" },
+ *         "hostname": [["\\.framer\\.app$", "high", "Framer subdomain"]],
+ *         "headers":  [{ "header": "server", "pattern": "^Framer/", "confidence": "high", "description": "…" }],
+ *         "cookies":  [{ "cookie": "^_framer_", "confidence": "medium", "description": "…" }],
+ *         "dns":      [{ "type": "CNAME", "pattern": "\\.framer\\.app$", "confidence": "high", "description": "…" }],
+ *         "probes":   [{ "path": "/wp-json/", "contentType": "json", "body": "\"namespaces\"", "confidence": "high", "description": "…" }],
+ *         "hashes":   [{ "asset": "favicon", "mmh3": -1234567890, "confidence": "high", "description": "…" }],
+ *         …
+ *       }
+ *     },
+ *     "templates": {
+ *       "Vite (create-vite)": { "hashes": [{ "asset": "/vite.svg", "sha256": "…", "confidence": "medium", "description": "…" }] }
+ *     }
+ *   }
+ *
+ * `meta.kind` is one of PLATFORM_KINDS; the bucket policy keys off it (a
+ * static host is never "platform-assisted", see bucketFromVerdicts).
+ *
+ * HTML categories match the structural field they name (see fieldTexts in
+ * _detector.ts): meta_tag patterns see canonical `<meta name="…" content="…">`
+ * strings, html_comment patterns see comment bodies, and so on.
+ *
+ * `dns` rules match the final hostname's records (see _dns.ts): CNAME
+ * patterns see each target of the chain, A rules list IPv4 ranges in `cidr`,
+ * and TXT patterns see the records at the apex, or at `<name>.<apex>` when
+ * the rule has a `name` such as "_vercel".
+ *
+ * `probes` are requested only in probe mode (see _probes.ts). A probe matches
+ * when the status is one of `status` (default [200]) and the content type and
+ * body match their patterns; it needs at least one of the two, since SPAs
+ * answer any path with a 200.
+ *
+ * `hashes` match fetched files by Shodan-style mmh3 or SHA-256 (see
+ * _hashes.ts): `asset` is "favicon", "og:image", or a path that is hashed
+ * when the page references it. Starter templates aren't platforms, so their
+ * default files live under the top-level `templates`; a match there is AI
+ * evidence, not a platform. Hashes are of real shipped files only — the
+ * results list every hash computed, to grow the database from.
+ *
+ * Packs are loaded at runtime from the FINGERPRINT_PACKS KV namespace (key
+ * "current") so new fingerprints ship without a redeploy:
+ *
+ *   wrangler kv:key put --binding=FINGERPRINT_PACKS current "$(cat pack.json)"
+ *
+ * A missing binding, missing key or invalid pack falls back to the bundled file.
+ */
+
+import bundledPackJson from "./_fingerprints.json";
+import { isCidr } from "./_dns";
+import type { Env } from "./_env";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Confidence = "high" | "medium" | "low";
+
+export type PatternEntry = [pattern: string, confidence: Confidence, description: string];
+
+export const PLATFORM_KINDS = [
+  "ai-app-builder",    // prompt-to-app generators (Lovable, Bolt, v0)
+  "ai-site-builder",   // prompt-to-website generators (Durable, 10Web, Dora)
+  "ai-coding-tool",    // AI editors/assistants that leave traces in the output (Cursor)
+  "no-code",           // visual site builders (Framer, Webflow, Wix)
+  "cms",
+  "ecommerce",
+  "static-host",       // hosting only — says nothing about how the site was built
+] as const;
+
+export type PlatformKind = typeof PLATFORM_KINDS[number];
+
+export interface PlatformMeta {
+  kind: PlatformKind;
+  vendor: string;
+  homepage: string;
+}
+
+/** Matches a named response header; without `pattern` any non-empty value matches. */
+export interface HeaderRule {
+  header: string;
+  pattern?: string;
+  confidence: Confidence;
+  description: string;
+}
+
+/** Matches cookie names set via Set-Cookie. */
+export interface CookieRule {
+  cookie: string;
+  confidence: Confidence;
+  description: string;
+}
+
+/** Matches the final hostname's DNS records. */
+export interface DnsRule {
+  type: "CNAME" | "A" | "TXT";
+  pattern?: string;               // CNAME target or TXT value
+  cidr?: string[];                // A only: IPv4 ranges
+  name?: string;                  // TXT only: label under the apex, e.g. "_vercel"
+  confidence: Confidence;
+  description: string;
+}
+
+/** A follow-up request to a well-known path and the response that confirms the platform. */
+export interface ProbeRule {
+  path: string;                   // absolute path, query allowed
+  status?: number[];
+  contentType?: string;
+  body?: string;
+  confidence: Confidence;
+  description: string;
+}
+
+/** A known file: the page's favicon, og:image or a referenced path, by hash. */
+export interface HashRule {
+  asset: string;                  // "favicon", "og:image" or an absolute path
+  mmh3?: number;                  // Shodan favicon hash
+  sha256?: string;
+  confidence: Confidence;
+  description: string;
+}
+
+/** A starter template (create-vite, create-next-app) and the default files it ships. */
+export interface TemplateFingerprint {
+  hashes: HashRule[];
+}
+
+export interface PlatformFingerprint {
+  meta: PlatformMeta;
+  hostname?: PatternEntry[];
+  http_header?: PatternEntry[];   // matched against the Server header
+  meta_tag?: PatternEntry[];
+  html_comment?: PatternEntry[];
+  data_attribute?: PatternEntry[];
+  css_class?: PatternEntry[];
+  css_variable?: PatternEntry[];
+  js_global?: PatternEntry[];
+  dom_id?: PatternEntry[];
+  script_content?: PatternEntry[];
+  script_src?: PatternEntry[];
+  link_href?: PatternEntry[];
+  img_src?: PatternEntry[];
+  font?: PatternEntry[];
+  headers?: HeaderRule[];
+  cookies?: CookieRule[];
+  dns?: DnsRule[];
+  probes?: ProbeRule[];
+  hashes?: HashRule[];
+}
+
+export interface FingerprintPack {
+  schema: number;
+  version: string;
+  platforms: Record<string, PlatformFingerprint>;
+  templates?: Record<string, TemplateFingerprint>;
+}
+
+export class FingerprintPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FingerprintPackError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schema validation
+// ---------------------------------------------------------------------------
+
+// 2: every platform carries `meta`
+const PACK_SCHEMA_VERSION = 2;
+
+const PATTERN_CATEGORIES = [
+  "hostname", "http_header", "meta_tag", "html_comment", "data_attribute",
+  "css_class", "css_variable", "js_global", "dom_id", "script_content",
+  "script_src", "link_href", "img_src", "font",
+] as const;
+
+const CONFIDENCES: readonly string[] = ["high", "medium", "low"];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function checkRegex(pattern: unknown, path: string): string {
+  if (typeof pattern !== "string" || !pattern) {
+    throw new FingerprintPackError(`${path}: pattern must be a non-empty string`);
+  }
+  try { new RegExp(pattern, "is"); }
+  catch (e: unknown) { throw new FingerprintPackError(`${path}: invalid regex (${(e as Error).message})`); }
+  return pattern;
+}
+
+function checkConfidence(v: unknown, path: string): Confidence {
+  if (typeof v !== "string" || !CONFIDENCES.includes(v)) {
+    throw new FingerprintPackError(`${path}: confidence must be one of ${CONFIDENCES.join(", ")}`);
+  }
+  return v as Confidence;
+}
+
+function checkDescription(v: unknown, path: string): string {
+  if (typeof v !== "string" || !v) throw new FingerprintPackError(`${path}: description must be a non-empty string`);
+  return v;
+}
+
+function checkArray(v: unknown, path: string): unknown[] {
+  if (!Array.isArray(v)) throw new FingerprintPackError(`${path}: expected an array`);
+  return v;
+}
+
+function validateMeta(raw: unknown, path: string): PlatformMeta {
+  if (!isRecord(raw)) throw new FingerprintPackError(`${path}: expected an object`);
+  if (typeof raw.kind !== "string" || !(PLATFORM_KINDS as readonly string[]).includes(raw.kind)) {
+    throw new FingerprintPackError(`${path}.kind: must be one of ${PLATFORM_KINDS.join(", ")}`);
+  }
+  if (typeof raw.vendor !== "string" || !raw.vendor) throw new FingerprintPackError(`${path}.vendor: must be a non-empty string`);
+  if (typeof raw.homepage !== "string" || !/^https?:\/\/\S+$/.test(raw.homepage)) {
+    throw new FingerprintPackError(`${path}.homepage: must be an http(s) URL`);
+  }
+  return { kind: raw.kind as PlatformKind, vendor: raw.vendor, homepage: raw.homepage };
+}
+
+const DNS_TYPES: readonly string[] = ["CNAME", "A", "TXT"];
+
+function validateDnsRule(e: unknown, path: string): DnsRule {
+  if (!isRecord(e)) throw new FingerprintPackError(`${path}: expected an object`);
+  if (typeof e.type !== "string" || !DNS_TYPES.includes(e.type)) {
+    throw new FingerprintPackError(`${path}.type: must be one of ${DNS_TYPES.join(", ")}`);
+  }
+  const rule: DnsRule = {
+    type: e.type as DnsRule["type"],
+    confidence: checkConfidence(e.confidence, path),
+    description: checkDescription(e.description, path),
+  };
+  if (rule.type === "A") {
+    const cidr = checkArray(e.cidr, `${path}.cidr`);
+    if (!cidr.length || !cidr.every((c) => typeof c === "string" && isCidr(c))) {
+      throw new FingerprintPackError(`${path}.cidr: expected IPv4 ranges such as "23.227.38.0/24"`);
+    }
+    rule.cidr = cidr as string[];
+  } else {
+    rule.pattern = checkRegex(e.pattern, path);
+  }
+  if (e.name !== undefined) {
+    if (rule.type !== "TXT" || typeof e.name !== "string" || !/^_?[a-z0-9-]+$/i.test(e.name)) {
+      throw new FingerprintPackError(`${path}.name: TXT rules only, a single DNS label such as "_vercel"`);
+    }
+    rule.name = e.name.toLowerCase();
+  }
+  return rule;
+}
+
+function validateHashRule(e: unknown, path: string): HashRule {
+  if (!isRecord(e)) throw new FingerprintPackError(`${path}: expected an object`);
+  if (typeof e.asset !== "string" || !/^(?:favicon|og:image|\/(?!\/)\S*)$/.test(e.asset)) {
+    throw new FingerprintPackError(`${path}.asset: must be "favicon", "og:image" or an absolute path`);
+  }
+  if (e.mmh3 === undefined && e.sha256 === undefined) throw new FingerprintPackError(`${path}: needs an mmh3 or sha256 hash`);
+  const rule: HashRule = {
+    asset: e.asset,
+    confidence: checkConfidence(e.confidence, path),
+    description: checkDescription(e.description, path),
+  };
+  if (e.mmh3 !== undefined) {
+    if (!Number.isInteger(e.mmh3) || (e.mmh3 as number) < -(2 ** 31) || (e.mmh3 as number) >= 2 ** 31) {
+      throw new FingerprintPackError(`${path}.mmh3: must be a signed 32-bit integer`);
+    }
+    rule.mmh3 = e.mmh3 as number;
+  }
+  if (e.sha256 !== undefined) {
+    if (typeof e.sha256 !== "string" || !/^[0-9a-f]{64}$/.test(e.sha256)) {
+      throw new FingerprintPackError(`${path}.sha256: must be 64 lowercase hex digits`);
+    }
+    rule.sha256 = e.sha256;
+  }
+  return rule;
+}
+
+function validateProbeRule(e: unknown, path: string): ProbeRule {
+  if (!isRecord(e)) throw new FingerprintPackError(`${path}: expected an object`);
+  if (typeof e.path !== "string" || !/^\/(?!\/)[^\s#]*$/.test(e.path)) {
+    throw new FingerprintPackError(`${path}.path: must be an absolute path such as "/wp-json/"`);
+  }
+  if (e.contentType === undefined && e.body === undefined) {
+    throw new FingerprintPackError(`${path}: needs a contentType or body pattern — a status alone matches SPA fallbacks`);
+  }
+  const rule: ProbeRule = {
+    path: e.path,
+    confidence: checkConfidence(e.confidence, path),
+    description: checkDescription(e.description, path),
+  };
+  if (e.status !== undefined) {
+    const status = checkArray(e.status, `${path}.status`);
+    if (!status.length || !status.every((s) => Number.isInteger(s) && (s as number) >= 100 && (s as number) <= 599)) {
+      throw new FingerprintPackError(`${path}.status: expected HTTP status codes`);
+    }
+    rule.status = status as number[];
+  }
+  if (e.contentType !== undefined) rule.contentType = checkRegex(e.contentType, `${path}.contentType`);
+  if (e.body !== undefined) rule.body = checkRegex(e.body, `${path}.body`);
+  return rule;
+}
+
+function validateFingerprint(raw: unknown, path: string): PlatformFingerprint {
+  if (!isRecord(raw)) throw new FingerprintPackError(`${path}: expected an object`);
+  const fp: PlatformFingerprint = { meta: validateMeta(raw.meta, `${path}.meta`) };
+
+  for (const key of Object.keys(raw)) {
+    const p = `${path}.${key}`;
+    if (key === "meta") continue;
+    if ((PATTERN_CATEGORIES as readonly string[]).includes(key)) {
+      fp[key as typeof PATTERN_CATEGORIES[number]] = checkArray(raw[key], p).map((e, i) => {
+        const ep = `${p}[${i}]`;
+        if (!Array.isArray(e) || e.length !== 3) throw new FingerprintPackError(`${ep}: expected [pattern, confidence, description]`);
+        return [checkRegex(e[0], ep), checkConfidence(e[1], ep), checkDescription(e[2], ep)];
+      });
+    } else if (key === "headers") {
+      fp.headers = checkArray(raw[key], p).map((e, i) => {
+        const ep = `${p}[${i}]`;
+        if (!isRecord(e)) throw new FingerprintPackError(`${ep}: expected an object`);
+        if (typeof e.header !== "string" || !e.header) throw new FingerprintPackError(`${ep}: header must be a non-empty string`);
+        const rule: HeaderRule = {
+          header: e.header.toLowerCase(),
+          confidence: checkConfidence(e.confidence, ep),
+          description: checkDescription(e.description, ep),
+        };
+        if (e.pattern !== undefined) rule.pattern = checkRegex(e.pattern, ep);
+        return rule;
+      });
+    } else if (key === "cookies") {
+      fp.cookies = checkArray(raw[key], p).map((e, i) => {
+        const ep = `${p}[${i}]`;
+        if (!isRecord(e)) throw new FingerprintPackError(`${ep}: expected an object`);
+        return {
+          cookie: checkRegex(e.cookie, ep),
+          confidence: checkConfidence(e.confidence, ep),
+          description: checkDescription(e.description, ep),
+        };
+      });
+    } else if (key === "hashes") {
+      fp.hashes = checkArray(raw[key], p).map((e, i) => validateHashRule(e, `${p}[${i}]`));
+    } else if (key === "probes") {
+      fp.probes = checkArray(raw[key], p).map((e, i) => validateProbeRule(e, `${p}[${i}]`));
+    } else if (key === "dns") {
+      fp.dns = checkArray(raw[key], p).map((e, i) => validateDnsRule(e, `${p}[${i}]`));
+    } else {
+      throw new FingerprintPackError(`${p}: unknown fingerprint category`);
+    }
+  }
+  return fp;
+}
+
+export function validatePack(raw: unknown): FingerprintPack {
+  if (!isRecord(raw)) throw new FingerprintPackError("pack: expected an object");
+  if (raw.schema !== PACK_SCHEMA_VERSION) {
+    throw new FingerprintPackError(`pack.schema: unsupported schema ${String(raw.schema)} (expected ${PACK_SCHEMA_VERSION})`);
+  }
+  if (typeof raw.version !== "string" || !raw.version) {
+    throw new FingerprintPackError("pack.version: must be a non-empty string");
+  }
+  if (!isRecord(raw.platforms) || !Object.keys(raw.platforms).length) {
+    throw new FingerprintPackError("pack.platforms: expected a non-empty object");
+  }
+
+  const platforms: Record<string, PlatformFingerprint> = {};
+  for (const [name, fp] of Object.entries(raw.platforms)) {
+    platforms[name] = validateFingerprint(fp, `pack.platforms[${JSON.stringify(name)}]`);
+  }
+  const pack: FingerprintPack = { schema: raw.schema, version: raw.version, platforms };
+
+  if (raw.templates !== undefined) {
+    if (!isRecord(raw.templates)) throw new FingerprintPackError("pack.templates: expected an object");
+    pack.templates = {};
+    for (const [name, t] of Object.entries(raw.templates)) {
+      const path = `pack.templates[${JSON.stringify(name)}]`;
+      if (!isRecord(t)) throw new FingerprintPackError(`${path}: expected an object`);
+      pack.templates[name] = { hashes: checkArray(t.hashes, `${path}.hashes`).map((e, i) => validateHashRule(e, `${path}.hashes[${i}]`)) };
+    }
+  }
+  return pack;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+// Validated at module load so a broken bundled pack fails the deploy, not a request
+export const BUNDLED_PACK: FingerprintPack = validatePack(bundledPackJson);
+
+const PACK_KV_KEY = "current";
+const PACK_REFRESH_MS = 60_000;
+
+let cachedPack: { pack: FingerprintPack; loadedAt: number } | null = null;
+
+/**
+ * Resolve the active fingerprint pack. KV lookups are cached per isolate for
+ * a minute; any failure falls back to the bundled pack.
+ */
+export async function loadFingerprintPack(env: Env): Promise<FingerprintPack> {
+  if (!env.FINGERPRINT_PACKS) return BUNDLED_PACK;
+  if (cachedPack && Date.now() - cachedPack.loadedAt < PACK_REFRESH_MS) return cachedPack.pack;
+
+  let pack = BUNDLED_PACK;
+  try {
+    const raw = await env.FINGERPRINT_PACKS.get(PACK_KV_KEY, "json");
+    if (raw !== null) pack = validatePack(raw);
+  } catch (err: unknown) {
+    console.warn(`Fingerprint pack from KV rejected, using bundled ${BUNDLED_PACK.version}: ${(err as Error).message}`);
+  }
+  cachedPack = { pack, loadedAt: Date.now() };
+  return pack;
+}
@@ -0,0 +1,208 @@
+/**
+ * Asset hashes — recognising default files that regexes can't see.
+ *
+ * Builders and starter templates ship default favicons, logos and og:images,
+ * and plenty of sites never replace them. The page's favicon (its
+ * `<link rel="icon">`, else /favicon.ico), its og:image and any referenced
+ * file a hash rule names by path are fetched, hashed and matched against the
+ * pack's hash rules (`hashes` on a platform or a template, see
+ * _fingerprints.ts). Platform matches are `asset_hash` signals — a builder's
+ * own favicon says which builder, not that the code is AI-written. Template
+ * matches are AI evidence: `template_asset`, or `default_favicon` for a
+ * starter's favicon nobody replaced.
+ *
+ * The bundled templates are create-vite's and create-next-app's files, hashed
+ * from the published npm packages. Lovable's and v0's own defaults aren't
+ * published anywhere they can be hashed from, so they're left to pack
+ * updates grown from the hashes real detections record.
+ *
+ * Two hashes per file: SHA-256 for exact matches, and the Shodan-style mmh3
+ * favicon hash (MurmurHash3 x86_32 of the base64 text, 76-column lines) so
+ * hashes published for `http.favicon.hash:` searches can be used as-is.
+ * Results carry every hash computed, matched or not, so the database can be
+ * grown from real detections.
+ */
+
+import type { Signal } from "./_detector";
+import type { HtmlFacts } from "./_html";
+import type { FingerprintPack, HashRule } from "./_fingerprints";
+import type { FetchScheduler } from "./_scheduler";
+
+export interface HashedAsset {
+  // "favicon", "og:image", or the rule path the page referenced
+  role: string;
+  url: string;
+  mmh3: number;
+  sha256: string;
+}
+
+const MAX_HASHED_ASSETS = 4;
+const MAX_HASHED_BYTES = 512 * 1024;
+const HASH_TIMEOUT_MS = 5000;
+
+// ---------------------------------------------------------------------------
+// Hashes
+// ---------------------------------------------------------------------------
+
+/** MurmurHash3 x86_32, as a signed 32-bit integer like Python's mmh3.hash(). */
+export function murmur3(data: Uint8Array, seed = 0): number {
+  const c1 = 0xcc9e2d51;
+  const c2 = 0x1b873593;
+  const tail = data.length & ~3;
+  let h = seed | 0;
+  const mix = (k: number) => {
+    k = Math.imul(k, c1);
+    k = (k << 15) | (k >>> 17);
+    return Math.imul(k, c2);
+  };
+
+  for (let i = 0; i < tail; i += 4) {
+    h ^= mix(data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24));
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+  let k = 0;
+  switch (data.length & 3) {
+    case 3: k ^= data[tail + 2] << 16; // falls through
+    case 2: k ^= data[tail + 1] << 8;  // falls through
+    case 1: k ^= data[tail]; h ^= mix(k);
+  }
+
+  h ^= data.length;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+/** Shodan's favicon hash: mmh3 of the base64 encoding with a newline every 76 characters and at the end. */
+export function faviconHash(bytes: Uint8Array): number {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  const b64 = btoa(binary).replace(/.{76}/g, "$&\n");
+  return murmur3(new TextEncoder().encode(b64.endsWith("\n") ? b64 : `${b64}\n`));
+}
+
+async function sha256Bytes(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Every hash rule in the pack, platforms' and templates'. */
+function allRules(pack: FingerprintPack): HashRule[] {
+  return [
+    ...Object.values(pack.platforms).flatMap((fp) => fp.hashes ?? []),
+    ...Object.values(pack.templates ?? {}).flatMap((t) => t.hashes),
+  ];
+}
+
+/** The files to hash, by role: favicon first, then og:image, then referenced rule paths. */
+export function findHashedRefs(facts: HtmlFacts, baseUrl: string, pack: FingerprintPack): Array<{ role: string; url: string }> {
+  const rules = allRules(pack);
+  if (!rules.length) return [];
+
+  const refs: Array<{ role: string; url: string }> = [];
+  const add = (role: string, href: string) => {
+    let u: URL;
+    try { u = new URL(href, baseUrl); }
+    catch { return; }
+    if (!/^https?:$/.test(u.protocol) || refs.some((r) => r.url === u.href)) return;
+    refs.push({ role, url: u.href });
+  };
+
+  const icon = facts.links.find((l) => /(?:^|\s)(?:shortcut\s+)?icon(?:\s|$)/.test(l.rel));
+  add("favicon", icon?.href ?? "/favicon.ico");
+  if (rules.some((r) => r.asset === "og:image")) {
+    const og = facts.metaTags.map((t) => t.match(/^<meta property="og:image" content="([^"]+)"/)).find(Boolean);
+    if (og) add("og:image", og[1].replace(/&quot;/g, '"'));
+  }
+  // Declared paths are only fetched when the page points at them
+  const origin = new URL(baseUrl).origin;
+  const referencedPaths = new Set([...facts.links.map((l) => l.href), ...facts.imgSrcs].flatMap((href) => {
+    try {
+      const u = new URL(href, baseUrl);
+      return u.origin === origin ? [u.pathname] : [];
+    } catch {
+      return [];
+    }
+  }));
+  for (const rule of rules) {
+    if (rule.asset.startsWith("/") && referencedPaths.has(rule.asset)) add(rule.asset, rule.asset);
+  }
+  return refs.slice(0, MAX_HASHED_ASSETS);
+}
+
+async function hashAsset(ref: { role: string; url: string }, scheduler: FetchScheduler): Promise<HashedAsset | null> {
+  try {
+    // A truncated file would hash to nothing known, so larger ones are refused
+    const { response, body } = await scheduler.fetch(ref.url, { timeoutMs: HASH_TIMEOUT_MS, retry: false, maxBytes: MAX_HASHED_BYTES });
+    // An HTML body is an SPA fallback or error page, not the file
+    if (!response.ok || !body.byteLength || /text\/html/i.test(response.headers.get("content-type") ?? "")) return null;
+    const bytes = new Uint8Array(body);
+    return { ...ref, mmh3: faviconHash(bytes), sha256: await sha256Bytes(bytes) };
+  } catch {
+    // Non-fatal — an asset that can't be fetched just isn't matched
+    return null;
+  }
+}
+
+/** Fetch and hash the page's favicon and declared assets; nothing is fetched when the pack has no hash rules. */
+export async function loadHashedAssets(
+  facts: HtmlFacts,
+  baseUrl: string,
+  pack: FingerprintPack,
+  scheduler: FetchScheduler,
+): Promise<HashedAsset[]> {
+  const hashed = await Promise.all(findHashedRefs(facts, baseUrl, pack).map((ref) => hashAsset(ref, scheduler)));
+  return hashed.filter((h): h is HashedAsset => h !== null);
+}
+
+/** The hashed assets a rule matches: same role, and the same mmh3 or SHA-256. */
+export function matchHashRule(rule: HashRule, assets: HashedAsset[]): HashedAsset | undefined {
+  return assets.find((a) =>
+    a.role === rule.asset &&
+    ((rule.mmh3 !== undefined && rule.mmh3 === a.mmh3) || (rule.sha256 !== undefined && rule.sha256 === a.sha256)));
+}
+
+function hashSignal(category: string, rule: HashRule, asset: HashedAsset, description = rule.description): Signal {
+  const hash = rule.mmh3 === asset.mmh3 ? `mmh3:${asset.mmh3}` : `sha256:${asset.sha256.slice(0, 16)}…`;
+  return { category, confidence: rule.confidence, description, matchedValue: `${asset.role} ${hash}`, source: asset.url };
+}
+
+/** A platform's hash rules against the page's hashed assets. */
+export function matchHashes(rules: HashRule[], assets: HashedAsset[]): Signal[] {
+  return rules.flatMap((rule) => {
+    const asset = matchHashRule(rule, assets);
+    return asset ? [hashSignal("asset_hash", rule, asset)] : [];
+  });
+}
+
+/**
+ * AI signals from a starter template's default files. A platform's favicon
+ * is platform evidence only (matchHashes), never `default_favicon`.
+ */
+export function detectDefaultAssets(pack: FingerprintPack, assets: HashedAsset[]): Signal[] {
+  if (!assets.length) return [];
+  const signals: Signal[] = [];
+  let favicon = false;
+  for (const [name, template] of Object.entries(pack.templates ?? {})) {
+    for (const rule of template.hashes) {
+      const asset = matchHashRule(rule, assets);
+      if (!asset) continue;
+      if (rule.asset !== "favicon") {
+        signals.push(hashSignal("template_asset", rule, asset));
+      } else if (!favicon) {
+        // One favicon, so at most one signal — the first rule that recognises it
+        signals.push(hashSignal("default_favicon", rule, asset, `Default ${name} favicon never replaced`));
+        favicon = true;
+      }
+    }
+  }
+  return signals;
+}
@@ -0,0 +1,176 @@
+/**
+ * HTML facts — the page is tokenized once into structured fields so that
+ * fingerprints match the part of the document they describe. A `wp-content`
+ * mention in blog copy is no longer a CSS class, and a generator meta tag
+ * matches regardless of attribute order.
+ */
+
+import { Parser } from "htmlparser2";
+
+export interface LinkRef {
+  href: string;
+  rel: string;
+  as: string;
+}
+
+export interface HtmlFacts {
+  // Canonical `<meta name="…" property="…" content="…">` — attributes in a fixed order
+  metaTags: string[];
+  comments: string[];
+  ids: string[];
+  classAttrs: string[];            // raw class attribute values, one per element
+  classes: string[];               // unique class tokens
+  dataAttributes: string[];        // `data-foo="value"`
+  scriptSrcs: string[];
+  links: LinkRef[];
+  imgSrcs: string[];
+  anchorHrefs: string[];
+  formActions: string[];
+  svgPaths: string[];              // `d` of inline <svg><path>
+  inlineScripts: string[];
+  inlineStyles: string[];          // <style> blocks and style="" attributes
+  emptyMountPoints: string[];      // ids of <div>s with no content (SPA root shells)
+  customElements: string[];        // canonical opening tags of hyphenated elements, e.g. `<app-root ng-version="17.3.0">`
+  listItems: string[];             // text of each <li>
+  textBlocks: string[];            // visible text split at block-level element boundaries
+  visibleText: string;
+}
+
+// Attributes listed first in canonical meta tags; anything else follows alphabetically
+const META_ATTR_ORDER = ["name", "property", "http-equiv", "itemprop", "charset", "content"];
+
+// Elements whose text never renders as page copy
+const NON_VISIBLE_ELEMENTS = new Set(["script", "style", "template", "noscript"]);
+
+// Elements that start a new line of copy (a bullet, a heading, a paragraph)
+const BLOCK_ELEMENTS = new Set([
+  "address", "article", "aside", "blockquote", "br", "dd", "div", "dt", "figcaption", "footer", "h1", "h2", "h3",
+  "h4", "h5", "h6", "header", "li", "main", "nav", "p", "section", "td", "th",
+]);
+
+function canonicalTag(name: string, attribs: Record<string, string>, order: string[] = []): string {
+  const keys = Object.keys(attribs).sort((a, b) => {
+    const ia = order.indexOf(a);
+    const ib = order.indexOf(b);
+    if (ia !== -1 || ib !== -1) return (ia === -1 ? 99 : ia) - (ib === -1 ? 99 : ib);
+    return a.localeCompare(b);
+  });
+  return `<${[name, ...keys.map((k) => `${k}="${attribs[k].replace(/"/g, "&quot;")}"`)].join(" ")}>`;
+}
+
+const canonicalMeta = (attribs: Record<string, string>) => canonicalTag("meta", attribs, META_ATTR_ORDER);
+
+export function parseHtml(html: string): HtmlFacts {
+  const facts: HtmlFacts = {
+    metaTags: [], comments: [], ids: [], classAttrs: [], classes: [], dataAttributes: [],
+    scriptSrcs: [], links: [], imgSrcs: [], anchorHrefs: [], formActions: [], svgPaths: [],
+    inlineScripts: [], inlineStyles: [], emptyMountPoints: [], customElements: [], listItems: [], textBlocks: [], visibleText: "",
+  };
+
+  const classSet = new Set<string>();
+  const text: string[] = [];
+  // Stack of open elements; `empty` tracks whether anything was rendered inside
+  const open: Array<{ name: string; id: string; empty: boolean }> = [];
+  const listItems: string[][] = [];
+  let hiddenDepth = 0;
+  let rawText = "";
+  let block: string[] = [];
+
+  const markNonEmpty = () => { for (const el of open) el.empty = false; };
+  const flushBlock = () => {
+    const t = block.join("").replace(/\s+/g, " ").trim();
+    if (t) facts.textBlocks.push(t);
+    block = [];
+  };
+
+  const parser = new Parser({
+    onopentag(name, attribs) {
+      markNonEmpty();
+      open.push({ name, id: attribs.id ?? "", empty: true });
+      if (BLOCK_ELEMENTS.has(name)) {
+        flushBlock();
+        text.push(" ");
+      }
+
+      if (attribs.id) facts.ids.push(attribs.id);
+      if (attribs.class !== undefined) {
+        facts.classAttrs.push(attribs.class);
+        for (const c of attribs.class.split(/\s+/)) if (c) classSet.add(c);
+      }
+      if (attribs.style) facts.inlineStyles.push(attribs.style);
+      for (const [k, v] of Object.entries(attribs)) {
+        if (k.startsWith("data-")) facts.dataAttributes.push(`${k}="${v}"`);
+      }
+
+      if (name.includes("-")) facts.customElements.push(canonicalTag(name, attribs));
+
+      switch (name) {
+        case "meta": facts.metaTags.push(canonicalMeta(attribs)); break;
+        case "script": if (attribs.src) facts.scriptSrcs.push(attribs.src); break;
+        case "link":
+          if (attribs.href) facts.links.push({ href: attribs.href, rel: (attribs.rel ?? "").toLowerCase(), as: (attribs.as ?? "").toLowerCase() });
+          break;
+        case "img": if (attribs.src) facts.imgSrcs.push(attribs.src); break;
+        case "a": if (attribs.href) facts.anchorHrefs.push(attribs.href); break;
+        case "form": if (attribs.action) facts.formActions.push(attribs.action); break;
+        case "path": if (attribs.d) facts.svgPaths.push(attribs.d); break;
+        case "li": listItems.push([]); break;
+      }
+
+      if (NON_VISIBLE_ELEMENTS.has(name)) {
+        hiddenDepth++;
+        rawText = "";
+      }
+    },
+
+    ontext(data) {
+      if (hiddenDepth) {
+        rawText += data;
+        return;
+      }
+      if (data.trim()) markNonEmpty();
+      text.push(data);
+      block.push(data);
+      for (const li of listItems) li.push(data);
+    },
+
+    oncomment(data) {
+      facts.comments.push(data);
+    },
+
+    onclosetag(name) {
+      if (NON_VISIBLE_ELEMENTS.has(name) && hiddenDepth) {
+        hiddenDepth--;
+        if (name === "script" && rawText.trim()) facts.inlineScripts.push(rawText);
+        if (name === "style" && rawText.trim()) facts.inlineStyles.push(rawText);
+        rawText = "";
+      }
+      if (name === "li") {
+        const li = listItems.pop();
+        if (li) facts.listItems.push(li.join("").replace(/\s+/g, " ").trim());
+      }
+      if (BLOCK_ELEMENTS.has(name)) {
+        flushBlock();
+        // Block-level boundaries separate words in the extracted text; inline
+        // elements don't (`Hel<b>lo</b>` is one word)
+        text.push(" ");
+      }
+
+      // Pop back to the matching element; the parser closes implied tags for us
+      for (let i = open.length - 1; i >= 0; i--) {
+        if (open[i].name !== name) continue;
+        const [el] = open.splice(i);
+        if (el.name === "div" && el.id && el.empty) facts.emptyMountPoints.push(el.id);
+        break;
+      }
+    },
+  }, { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true });
+
+  parser.write(html);
+  parser.end();
+  flushBlock();
+
+  facts.classes = [...classSet];
+  facts.visibleText = text.join("").replace(/\s+/g, " ").trim();
+  return facts;
+}
@@ -0,0 +1,47 @@
+/**
+ * Fetch identity — the User-Agent every outbound request carries (page, JS
+ * bundles, sitemap, crawl pages) and the token matched against robots.txt.
+ *
+ * The default impersonates desktop Chrome, which gets the page real visitors
+ * see. FETCH_IDENTITY="crawler" identifies honestly instead:
+ *
+ *   Mozilla/5.0 (compatible; AIBuilderDetector/1.0; +https://example.com/bot)
+ *
+ * Compliant mode (robots=1 on a request, or RESPECT_ROBOTS="true") always
+ * uses the crawler identity — honouring robots.txt under a browser name
+ * would be meaningless.
+ */
+
+import type { Env } from "./_env";
+
+export interface FetchIdentity {
+  userAgent: string;
+  // Product token matched against robots.txt `User-agent:` lines
+  robotsAgent: string;
+}
+
+export const BROWSER_IDENTITY: FetchIdentity = {
+  userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
+  robotsAgent: "*",
+};
+
+const DEFAULT_CRAWLER_NAME = "AIBuilderDetector";
+const CRAWLER_VERSION = "1.0";
+
+export function crawlerIdentity(env: Env): FetchIdentity {
+  const name = env.CRAWLER_NAME || DEFAULT_CRAWLER_NAME;
+  const contact = env.CRAWLER_CONTACT_URL ? `; +${env.CRAWLER_CONTACT_URL}` : "";
+  return {
+    userAgent: `Mozilla/5.0 (compatible; ${name}/${CRAWLER_VERSION}${contact})`,
+    robotsAgent: name,
+  };
+}
+
+/** Whether a request runs in compliant mode: opted in per request, or on by default. */
+export function respectRobots(env: Env, requested: boolean): boolean {
+  return requested || env.RESPECT_ROBOTS === "true";
+}
+
+export function fetchIdentity(env: Env, compliant: boolean): FetchIdentity {
+  return compliant || env.FETCH_IDENTITY === "crawler" ? crawlerIdentity(env) : BROWSER_IDENTITY;
+}
@@ -0,0 +1,358 @@
+/**
+ * Batch jobs — lists of up to MAX_JOB_ROWS URLs are split into MAX_BATCH-row chunks that
+ * are detected in the background, one queue message per chunk.
+ *
+ * Job state lives in the JOBS KV namespace (in-memory when unbound) so it
+ * survives page reloads. Chunks are queued on the JOB_QUEUE Cloudflare Queue
+ * when bound; its consumer is the small Worker in workers/jobs-consumer.ts.
+ * Without a queue binding, chunks run in-process (local dev, tests).
+ *
+ * Each finished chunk writes its own results key with a summary in the key's
+ * metadata, so concurrent consumers never read-modify-write a shared record —
+ * progress is the sum of the chunk summaries. A chunk that fails every
+ * attempt still writes one, its rows marked with a `chunk_failed` error, so
+ * the job always finishes: "done", or "failed" when any chunk failed.
+ */
+
+import { BatchInput, BatchRow, detectRow, emptyBucketCounts, MAX_BATCH } from "./_batch";
+import { cacheTtlSeconds, getResultCache } from "./_cache";
+import { Bucket, errorResult } from "./_detector";
+import { getResolver } from "./_dns";
+import type { Env } from "./_env";
+import { loadFingerprintPack } from "./_fingerprints";
+import { respectRobots } from "./_identity";
+import { DEFAULT_PROBE_BUDGET } from "./_probes";
+import { getRenderer } from "./_renderer";
+import { createScheduler } from "./_scheduler";
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+export interface JobRecord {
+  id: string;
+  createdAt: string;
+  total: number;
+  chunkCount: number;
+  headers: string[];
+  urlColumn: string;
+  pages: number;
+  fresh: boolean;
+  robots: boolean;
+  probe: boolean;
+  format: BatchInput["format"];
+}
+
+export interface ChunkSummary {
+  chunk: number;
+  completed: number;
+  counts: Record<Bucket, number>;
+  finishedAt: string;
+  // Set when every attempt failed; the chunk's rows carry the error
+  error?: string;
+}
+
+export interface JobProgress {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  finishedAt: string | null;
+  total: number;
+  completed: number;
+  // Rows in chunks that failed every attempt (reported as errors in the results)
+  failed: number;
+  counts: Record<Bucket, number>;
+}
+
+export interface JobMessage {
+  jobId: string;
+  chunk: number;
+}
+
+// Workers allow 1000 KV operations per invocation. Creating a job writes a key
+// per chunk and downloading its results reads one per chunk; the rest covers
+// the job record, the summary listing and the API key's counters.
+const KV_OPERATIONS_PER_INVOCATION = 1000;
+const KV_OPERATIONS_RESERVED = 10;
+export const MAX_JOB_ROWS = (KV_OPERATIONS_PER_INVOCATION - KV_OPERATIONS_RESERVED) * MAX_BATCH;
+// Deliveries of a chunk before it's recorded as failed: the first plus
+// max_retries = 3 in wrangler.jobs.toml
+export const MAX_CHUNK_ATTEMPTS = 4;
+// Job state is kept for a week after creation
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export interface JobStore {
+  getJob(id: string): Promise<JobRecord | null>;
+  putJob(job: JobRecord, rowChunks: Record<string, string>[][]): Promise<void>;
+  getRows(id: string, chunk: number): Promise<Record<string, string>[] | null>;
+  putResults(id: string, summary: ChunkSummary, results: BatchRow[]): Promise<void>;
+  getResults(id: string, chunk: number): Promise<BatchRow[] | null>;
+  listSummaries(id: string): Promise<ChunkSummary[]>;
+}
+
+class KvJobStore implements JobStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async getJob(id: string): Promise<JobRecord | null> {
+    return this.kv.get<JobRecord>(`job:${id}`, "json");
+  }
+
+  async putJob(job: JobRecord, rowChunks: Record<string, string>[][]): Promise<void> {
+    const opts = { expirationTtl: JOB_TTL_SECONDS };
+    // Rows first: a visible job record implies its input is readable
+    await Promise.all(rowChunks.map((rows, i) => this.kv.put(`job:${job.id}:rows:${i}`, JSON.stringify(rows), opts)));
+    await this.kv.put(`job:${job.id}`, JSON.stringify(job), opts);
+  }
+
+  async getRows(id: string, chunk: number): Promise<Record<string, string>[] | null> {
+    return this.kv.get<Record<string, string>[]>(`job:${id}:rows:${chunk}`, "json");
+  }
+
+  async putResults(id: string, summary: ChunkSummary, results: BatchRow[]): Promise<void> {
+    await this.kv.put(`job:${id}:results:${summary.chunk}`, JSON.stringify(results), {
+      expirationTtl: JOB_TTL_SECONDS,
+      metadata: summary,
+    });
+  }
+
+  async getResults(id: string, chunk: number): Promise<BatchRow[] | null> {
+    return this.kv.get<BatchRow[]>(`job:${id}:results:${chunk}`, "json");
+  }
+
+  async listSummaries(id: string): Promise<ChunkSummary[]> {
+    const summaries: ChunkSummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<ChunkSummary>({ prefix: `job:${id}:results:`, cursor });
+      for (const key of page.keys) if (key.metadata) summaries.push(key.metadata);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return summaries;
+  }
+}
+
+export class MemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, {
+    job: JobRecord;
+    rows: Record<string, string>[][];
+    results: Map<number, { summary: ChunkSummary; results: BatchRow[] }>;
+  }>();
+
+  async getJob(id: string): Promise<JobRecord | null> {
+    return this.jobs.get(id)?.job ?? null;
+  }
+
+  async putJob(job: JobRecord, rowChunks: Record<string, string>[][]): Promise<void> {
+    this.jobs.set(job.id, { job, rows: rowChunks, results: new Map() });
+  }
+
+  async getRows(id: string, chunk: number): Promise<Record<string, string>[] | null> {
+    return this.jobs.get(id)?.rows[chunk] ?? null;
+  }
+
+  async putResults(id: string, summary: ChunkSummary, results: BatchRow[]): Promise<void> {
+    this.jobs.get(id)?.results.set(summary.chunk, { summary, results });
+  }
+
+  async getResults(id: string, chunk: number): Promise<BatchRow[] | null> {
+    return this.jobs.get(id)?.results.get(chunk)?.results ?? null;
+  }
+
+  async listSummaries(id: string): Promise<ChunkSummary[]> {
+    return [...(this.jobs.get(id)?.results.values() ?? [])].map((r) => r.summary);
+  }
+}
+
+const memoryStore = new MemoryJobStore();
+
+export function getJobStore(env: Env): JobStore {
+  return env.JOBS ? new KvJobStore(env.JOBS) : memoryStore;
+}
+
+// ---------------------------------------------------------------------------
+// Queues
+// ---------------------------------------------------------------------------
+
+export interface JobQueue {
+  send(messages: JobMessage[]): Promise<void>;
+  /** Resolves once in-process work is finished; remote queues resolve immediately. */
+  idle(): Promise<void>;
+}
+
+// Queues.sendBatch accepts at most 100 messages per call
+const QUEUE_SEND_BATCH = 100;
+
+class CloudflareJobQueue implements JobQueue {
+  constructor(private readonly queue: Queue<JobMessage>) {}
+
+  async send(messages: JobMessage[]): Promise<void> {
+    for (let i = 0; i < messages.length; i += QUEUE_SEND_BATCH) {
+      await this.queue.sendBatch(messages.slice(i, i + QUEUE_SEND_BATCH).map((body) => ({ body })));
+    }
+  }
+
+  async idle(): Promise<void> {}
+}
+
+/**
+ * Processes messages one at a time in this isolate, retrying failures like a
+ * queue would; `onFailure` gets a message whose attempts all failed.
+ */
+export class LocalJobQueue implements JobQueue {
+  private readonly pending: JobMessage[] = [];
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private readonly handler: (message: JobMessage) => Promise<void>,
+    private readonly onFailure: (message: JobMessage, err: unknown) => Promise<void>,
+  ) {}
+
+  async send(messages: JobMessage[]): Promise<void> {
+    this.pending.push(...messages);
+    this.running ??= this.drain();
+  }
+
+  idle(): Promise<void> {
+    return this.running ?? Promise.resolve();
+  }
+
+  private async drain(): Promise<void> {
+    for (let message = this.pending.shift(); message; message = this.pending.shift()) {
+      for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS; attempt++) {
+        try {
+          await this.handler(message);
+          break;
+        } catch (err: unknown) {
+          console.warn(`Job ${message.jobId} chunk ${message.chunk} failed (attempt ${attempt}): ${(err as Error).message}`);
+          if (attempt === MAX_CHUNK_ATTEMPTS) await this.onFailure(message, err);
+        }
+      }
+    }
+    this.running = null;
+  }
+}
+
+export function getJobQueue(env: Env): JobQueue {
+  return env.JOB_QUEUE
+    ? new CloudflareJobQueue(env.JOB_QUEUE)
+    : new LocalJobQueue((message) => processJobChunk(env, message), (message) => failJobChunk(env, message));
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+export async function createJob(env: Env, input: BatchInput): Promise<JobRecord> {
+  const rowChunks: Record<string, string>[][] = [];
+  for (let i = 0; i < input.rows.length; i += MAX_BATCH) rowChunks.push(input.rows.slice(i, i + MAX_BATCH));
+
+  const job: JobRecord = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    total: input.rows.length,
+    chunkCount: rowChunks.length,
+    headers: input.headers,
+    urlColumn: input.urlColumn,
+    pages: input.pages,
+    fresh: input.fresh,
+    robots: input.robots,
+    probe: input.probe,
+    format: input.format,
+  };
+  await getJobStore(env).putJob(job, rowChunks);
+  return job;
+}
+
+/** Detect one chunk of a job. Safe to run twice — results are simply rewritten. */
+export async function processJobChunk(env: Env, message: JobMessage): Promise<void> {
+  const store = getJobStore(env);
+  const job = await store.getJob(message.jobId);
+  // Expired or unknown job — nothing to do, and retrying won't help
+  if (!job) return;
+  const rows = await store.getRows(job.id, message.chunk);
+  if (!rows) return;
+
+  // Jobs created before compliant mode existed have no flag
+  const robots = respectRobots(env, job.robots ?? false);
+  const detectCtx = {
+    pack: await loadFingerprintPack(env),
+    cache: getResultCache(env),
+    ttlSeconds: cacheTtlSeconds(env),
+    pages: job.pages,
+    fresh: job.fresh,
+    robots,
+    scheduler: createScheduler(env, robots),
+    renderer: getRenderer(env, robots),
+    resolver: getResolver(env),
+    // Jobs created before probe mode existed have no flag
+    probes: job.probe ? DEFAULT_PROBE_BUDGET : null,
+  };
+  const results = await Promise.all(rows.map((row) => detectRow(row, job.urlColumn, detectCtx)));
+
+  const counts = emptyBucketCounts();
+  for (const r of results) counts[r.bucket]++;
+  await store.putResults(job.id, {
+    chunk: message.chunk,
+    completed: results.length,
+    counts,
+    finishedAt: new Date().toISOString(),
+  }, results);
+}
+
+/**
+ * Record a chunk that failed every attempt: its rows become `chunk_failed`
+ * errors, so the job can finish. Never throws — if storage itself is failing
+ * there is nothing left to record the failure in.
+ */
+export async function failJobChunk(env: Env, message: JobMessage): Promise<void> {
+  try {
+    const store = getJobStore(env);
+    const job = await store.getJob(message.jobId);
+    if (!job) return;
+    const rows = (await store.getRows(job.id, message.chunk)) ?? [];
+    const results = rows.map((row) => {
+      const url = (row[job.urlColumn] ?? "").trim();
+      return { ...errorResult(url, url, "chunk_failed"), originalRow: row };
+    });
+    const counts = emptyBucketCounts();
+    counts.unknown = results.length;
+    await store.putResults(job.id, {
+      chunk: message.chunk,
+      completed: results.length,
+      counts,
+      finishedAt: new Date().toISOString(),
+      error: "chunk_failed",
+    }, results);
+  } catch (err: unknown) {
+    console.warn(`Job ${message.jobId} chunk ${message.chunk}: could not record failure: ${(err as Error).message}`);
+  }
+}
+
+export async function getJobProgress(store: JobStore, job: JobRecord): Promise<JobProgress> {
+  const summaries = await store.listSummaries(job.id);
+  const counts = emptyBucketCounts();
+  let completed = 0;
+  let failed = 0;
+  let finishedAt: string | null = null;
+  for (const s of summaries) {
+    completed += s.completed;
+    if (s.error) failed += s.completed;
+    for (const [bucket, n] of Object.entries(s.counts)) counts[bucket as Bucket] += n;
+    if (!finishedAt || s.finishedAt > finishedAt) finishedAt = s.finishedAt;
+  }
+
+  const finished = summaries.length >= job.chunkCount;
+  const status: JobStatus = finished ? (summaries.some((s) => s.error) ? "failed" : "done") : summaries.length ? "running" : "queued";
+  return {
+    id: job.id,
+    status,
+    createdAt: job.createdAt,
+    finishedAt: finished ? finishedAt : null,
+    total: job.total,
+    completed,
+    failed,
+    counts,
+  };
+}
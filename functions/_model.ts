@@ -0,0 +1,109 @@
+/**
+ * Scoring model — bucket and platform probabilities on top of the rule-based buckets.
+ *
+ * Two logistic regressions over per-category evidence, trained offline by
+ * scripts/train.ts from labeled DetectionResults:
+ *
+ *   platform  P(a candidate platform is the site's builder), shared across
+ *             platforms so rare builders benefit from common ones
+ *   ai        P(ai-assisted | no platform)
+ *
+ * Candidates are the platforms in the result's explanation (winner plus
+ * runners-up). Bucket probabilities combine the two:
+ *
+ *   platform-assisted = 1 - Π(1 - p_candidate)
+ *   ai-assisted       = (1 - platform-assisted) · p_ai
+ *   no-ai-signals     = (1 - platform-assisted) · (1 - p_ai)
+ *
+ * A feature is log(1 + raw) of one category's contribution, uncapped — the
+ * model learns how much each kind of evidence is worth instead of
+ * CATEGORY_CAP and the thresholds. Training shrinks the weights towards a
+ * prior that mirrors the rules (a lone signal exactly at the threshold is a
+ * coin flip), so sparse labels move the model only as far as they justify.
+ *
+ * The probabilities are only calibrated when the model was trained on
+ * independently labeled results alone (`train.ts --data` without
+ * `--fixtures`); `calibrated` says which. The fixture corpus is labeled by the
+ * rule engine's own golden output, so a model fit to it restates the rules as
+ * probabilities, in part when it's mixed with other labels. The bundled
+ * _model.json is such a model: rank by its probabilities, but don't read
+ * them as precision.
+ */
+
+import bundledModelJson from "./_model.json";
+import type { Bucket, CategoryContribution, Explanation } from "./_detector";
+
+export interface LogisticWeights {
+  bias: number;
+  weights: Record<string, number>;
+  // Weight of categories absent from `weights` (new fingerprints), from the prior
+  defaultWeight: number;
+}
+
+export interface ScoringModel {
+  schema: number;
+  version: string;
+  // Trained on independently labeled data, not only the fixture goldens
+  calibrated: boolean;
+  platform: LogisticWeights;
+  ai: LogisticWeights;
+}
+
+export interface Probabilities {
+  modelVersion: string;
+  // The model's `calibrated`: false means the probabilities restate the rules
+  calibrated: boolean;
+  buckets: Record<Bucket, number>;
+  // Probability that each candidate platform is the builder; sums to buckets["platform-assisted"]
+  platforms: Record<string, number>;
+}
+
+export const BUNDLED_MODEL: ScoringModel = bundledModelJson;
+
+// Prior slope per unit of log-evidence
+const PRIOR_SLOPE = 2;
+
+/** The rule-equivalent model for a score threshold: P = 0.5 for one category at exactly `threshold`. */
+export function priorWeights(threshold: number): LogisticWeights {
+  return { bias: -PRIOR_SLOPE * Math.log1p(threshold), weights: {}, defaultWeight: PRIOR_SLOPE };
+}
+
+export function features(categories: CategoryContribution[]): Record<string, number> {
+  const x: Record<string, number> = {};
+  for (const c of categories) x[c.category] = Math.log1p(c.raw);
+  return x;
+}
+
+export function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+export function predictLogistic(w: LogisticWeights, x: Record<string, number>): number {
+  let z = w.bias;
+  for (const [name, value] of Object.entries(x)) z += (w.weights[name] ?? w.defaultWeight) * value;
+  return sigmoid(z);
+}
+
+const round = (p: number) => Math.round(p * 1000) / 1000;
+
+export function predict(model: ScoringModel, explanation: Explanation): Probabilities {
+  const candidates = explanation.platforms.map((b) => [b.name, predictLogistic(model.platform, features(b.categories))] as const);
+  const pPlatform = 1 - candidates.reduce((none, [, p]) => none * (1 - p), 1);
+  const sum = candidates.reduce((s, [, p]) => s + p, 0);
+  const pAi = predictLogistic(model.ai, features(explanation.ai.categories));
+
+  const platforms: Record<string, number> = {};
+  for (const [name, p] of candidates) platforms[name] = round(sum ? pPlatform * (p / sum) : 0);
+
+  return {
+    modelVersion: model.version,
+    calibrated: model.calibrated,
+    buckets: {
+      "platform-assisted": round(pPlatform),
+      "ai-assisted": round((1 - pPlatform) * pAi),
+      "no-ai-signals": round((1 - pPlatform) * (1 - pAi)),
+      "unknown": 0,
+    },
+    platforms,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Active probes — cheap follow-up requests to platform-specific endpoints.
+ *
+ * Some platforms only show on well-known paths: WordPress answers `/wp-json/`
+ * with its REST index, Shopify serves `/products.json`, Squarespace renders
+ * any page as JSON with `?format=json`. Each fingerprint can declare `probes`
+ * (see _fingerprints.ts); matches become `probe` signals.
+ *
+ * Probing is opt-in (probe=1) and runs under a strict budget of requests and
+ * time. Platforms the page already has evidence for are probed first, so the
+ * budget goes to confirming candidates; a path several platforms declare is
+ * requested once. Probes go one at a time through the scheduler, so the URL
+ * policy, robots.txt and the fetch identity apply as for any other request,
+ * and each request's timeout is whatever is left of the time budget.
+ *
+ * SPAs answer every path with their index.html, so a 200 alone proves
+ * nothing — a probe must also match the body or the content type.
+ *
+ * Deliberately not probed:
+ *   - `/_next/static/`, a framework path rather than a platform's; the page's
+ *     own script URLs already show it (see _stack.ts)
+ *   - `/.well-known/shopify/`, Framer's `/__framer-badge` and Webflow's
+ *     `/.wf_graphql`, which have no documented GET response to match;
+ *     Shopify is probed through /products.json and /meta.json instead
+ *   - `/favicon.ico` and `/manifest.json` / `/site.webmanifest` defaults,
+ *     which are files to recognise by hash, not endpoints (see _hashes.ts)
+ */
+
+import type { Signal } from "./_detector";
+import type { FingerprintPack, ProbeRule } from "./_fingerprints";
+import type { FetchScheduler } from "./_scheduler";
+
+export interface ProbeBudget {
+  maxRequests: number;
+  timeMs: number;
+}
+
+/** What a probing phase did: requests sent, paths that matched, and whether the budget cut it short. */
+export interface ProbeSummary {
+  requests: number;
+  matched: string[];
+  exhausted: boolean;
+}
+
+export const DEFAULT_PROBE_BUDGET: ProbeBudget = { maxRequests: 6, timeMs: 5_000 };
+// Only the head of a probe response is matched
+const MAX_PROBE_BODY = 64 * 1024;
+
+/**
+ * Probe `finalUrl`'s origin for the pack's platforms, candidates first.
+ * Returns probe signals per platform.
+ */
+export async function runProbes(
+  pack: FingerprintPack,
+  finalUrl: string,
+  candidates: string[],
+  scheduler: FetchScheduler,
+  budget: ProbeBudget = DEFAULT_PROBE_BUDGET,
+): Promise<{ signals: Record<string, Signal[]>; summary: ProbeSummary }> {
+  // Path → every platform rule that asks for it, in priority order
+  const byPath = new Map<string, Array<{ platform: string; rule: ProbeRule }>>();
+  const order = [...candidates, ...Object.keys(pack.platforms).filter((p) => !candidates.includes(p))];
+  for (const platform of order) {
+    for (const rule of pack.platforms[platform]?.probes ?? []) {
+      const rules = byPath.get(rule.path) ?? [];
+      rules.push({ platform, rule });
+      byPath.set(rule.path, rules);
+    }
+  }
+
+  const signals: Record<string, Signal[]> = {};
+  const summary: ProbeSummary = { requests: 0, matched: [], exhausted: false };
+  const deadline = Date.now() + budget.timeMs;
+  // The deadline covers the whole request — waiting for a scheduler slot and
+  // robots.txt included, which `timeoutMs` alone doesn't
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeUp = new Promise<"time_up">((resolve) => { timer = setTimeout(() => resolve("time_up"), budget.timeMs); });
+
+  for (const [path, rules] of byPath) {
+    const remaining = deadline - Date.now();
+    if (summary.requests >= budget.maxRequests || remaining <= 0) {
+      summary.exhausted = true;
+      break;
+    }
+    summary.requests++;
+
+    let status: number;
+    let contentType: string;
+    let body: string;
+    try {
+      const request = scheduler.fetch(new URL(path, finalUrl).href, { timeoutMs: remaining, retry: false, maxBytes: MAX_PROBE_BODY, truncate: true });
+      // An abandoned request finishes (or times out) in the background
+      request.catch(() => {});
+      const res = await Promise.race([request, timeUp]);
+      if (res === "time_up") {
+        summary.exhausted = true;
+        break;
+      }
+      status = res.response.status;
+      contentType = res.response.headers.get("content-type") ?? "";
+      body = new TextDecoder().decode(res.body);
+    } catch {
+      // Non-fatal — a probe that fails is a probe that didn't match
+      continue;
+    }
+
+    for (const { platform, rule } of rules) {
+      if (!(rule.status ?? [200]).includes(status)) continue;
+      if (rule.contentType && !new RegExp(rule.contentType, "i").test(contentType)) continue;
+      if (rule.body && !new RegExp(rule.body, "is").test(body)) continue;
+      (signals[platform] ??= []).push({
+        category: "probe",
+        confidence: rule.confidence,
+        description: rule.description,
+        matchedValue: `GET ${path} → ${status}${contentType ? ` ${contentType.split(";")[0]}` : ""}`,
+      });
+      if (!summary.matched.includes(path)) summary.matched.push(path);
+    }
+  }
+  clearTimeout(timer);
+  return { signals, summary };
+}
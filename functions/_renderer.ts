@@ -0,0 +1,149 @@
+/**
+ * Page rendering — a headless browser's view of SPA shells.
+ *
+ * Vite + React apps (what most AI builders ship) serve `<div id="root"></div>`
+ * and nothing else; the copy, the shadcn markup and the placeholder links only
+ * exist once the bundle has run. When a page's stack is an empty SPA shell,
+ * analyzePage() asks the configured renderer for the DOM after scripts ran and
+ * analyses it alongside the raw HTML (see mergeRendered in _detector.ts).
+ *
+ * Backends, picked by getRenderer():
+ *   - Cloudflare Browser Rendering (REST API) when BROWSER_RENDERING_ACCOUNT_ID
+ *     and BROWSER_RENDERING_API_TOKEN are set — production
+ *   - any HTTP rendering service at RENDERER_URL taking `POST {"url": …}` and
+ *     returning HTML, e.g. a local headless Chrome (browserless `/content`) — dev
+ *   - StaticRenderer, serving HTML it was given — tests and fixtures
+ * Without any of them shells are analysed as fetched, as before.
+ */
+
+import type { Env } from "./_env";
+import { FetchIdentity, fetchIdentity } from "./_identity";
+
+export interface PageRenderer {
+  // Reported in DetectionResult.render
+  readonly name: string;
+  /** The serialized DOM of `url` after its scripts ran. Throws RenderError. */
+  render(url: string): Promise<string>;
+}
+
+export class RenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderError";
+  }
+}
+
+// Rendering waits for the network to settle, so it gets longer than a page fetch
+const DEFAULT_RENDER_TIMEOUT_MS = 20_000;
+// Same cap as page bodies (MAX_PAGE_BYTES in _detector.ts) — a rendered DOM bigger than this isn't a landing page
+const MAX_RENDERED_BYTES = 5_000_000;
+
+const BROWSER_RENDERING_API = "https://api.cloudflare.com/client/v4/accounts";
+
+/** POST a JSON render request; network failures and timeouts become RenderErrors. */
+async function post(endpoint: string, headers: Record<string, string>, body: unknown, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const resp = await fetch(endpoint, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!resp.ok) throw new RenderError(`render_http_${resp.status}`);
+    return resp;
+  } catch (err: unknown) {
+    if (err instanceof RenderError) throw err;
+    throw new RenderError(controller.signal.aborted ? "render_timeout" : "render_failed");
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function checkSize(html: string): string {
+  if (html.length > MAX_RENDERED_BYTES) throw new RenderError("render_too_large");
+  return html;
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+/** Cloudflare Browser Rendering's `/content` endpoint. */
+class BrowserRenderingRenderer implements PageRenderer {
+  readonly name = "browser-rendering";
+
+  constructor(
+    private readonly accountId: string,
+    private readonly apiToken: string,
+    private readonly identity: FetchIdentity,
+    private readonly timeoutMs = DEFAULT_RENDER_TIMEOUT_MS,
+  ) {}
+
+  async render(url: string): Promise<string> {
+    const resp = await post(
+      `${BROWSER_RENDERING_API}/${this.accountId}/browser-rendering/content`,
+      { Authorization: `Bearer ${this.apiToken}` },
+      {
+        url,
+        userAgent: this.identity.userAgent,
+        gotoOptions: { waitUntil: "networkidle0", timeout: this.timeoutMs },
+        // Only the DOM matters; skip what doesn't change it
+        rejectResourceTypes: ["image", "media", "font"],
+      },
+      // The browser's own navigation timeout fires first and reports an error body
+      this.timeoutMs + 5_000,
+    );
+    const body = await resp.json<{ success?: boolean; result?: unknown }>().catch(() => null);
+    if (!body?.success || typeof body.result !== "string") throw new RenderError("render_failed");
+    return checkSize(body.result);
+  }
+}
+
+/** A rendering service of our own, e.g. headless Chrome on localhost. */
+class HttpRenderer implements PageRenderer {
+  readonly name = "http";
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly timeoutMs = DEFAULT_RENDER_TIMEOUT_MS,
+  ) {}
+
+  async render(url: string): Promise<string> {
+    const resp = await post(this.endpoint, {}, { url }, this.timeoutMs);
+    return checkSize(await resp.text());
+  }
+}
+
+/** Serves pre-rendered HTML by URL; unknown URLs fail like a broken backend would. */
+export class StaticRenderer implements PageRenderer {
+  readonly name = "static";
+  private readonly pages: Map<string, string>;
+
+  constructor(pages: Record<string, string>) {
+    this.pages = new Map(Object.entries(pages).map(([u, html]) => [new URL(u).href, html]));
+  }
+
+  async render(url: string): Promise<string> {
+    const html = this.pages.get(new URL(url).href);
+    if (html === undefined) throw new RenderError("render_failed");
+    return html;
+  }
+}
+
+/**
+ * The configured renderer, or null when rendering is off. The browser carries
+ * the same User-Agent as the page fetch (see _identity.ts).
+ */
+export function getRenderer(env: Env, compliant: boolean): PageRenderer | null {
+  if (env.BROWSER_RENDERING_ACCOUNT_ID && env.BROWSER_RENDERING_API_TOKEN) {
+    return new BrowserRenderingRenderer(
+      env.BROWSER_RENDERING_ACCOUNT_ID,
+      env.BROWSER_RENDERING_API_TOKEN,
+      fetchIdentity(env, compliant),
+    );
+  }
+  if (env.RENDERER_URL) return new HttpRenderer(env.RENDERER_URL);
+  return null;
+}
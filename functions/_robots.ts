@@ -0,0 +1,132 @@
+/**
+ * robots.txt support for compliant mode (RFC 9309).
+ *
+ * Files are fetched once per origin and cached per isolate for an hour. The
+ * groups naming our product token apply, otherwise the `*` groups; the longest
+ * matching rule wins and Allow wins ties. As the RFC asks, a 4xx robots.txt
+ * allows everything while a 5xx or unreachable one disallows everything.
+ */
+
+import type { FetchScheduler } from "./_scheduler";
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];          // lowercased product tokens
+  rules: RobotsRule[];
+}
+
+interface RobotsFile {
+  groups: RobotsGroup[];
+  disallowAll: boolean;
+}
+
+const ROBOTS_TIMEOUT_MS = 5000;
+// RFC 9309 requires parsing at least 500 KiB
+const MAX_ROBOTS_BYTES = 512_000;
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_CACHE_MAX_ENTRIES = 1000;
+
+const ALLOW_ALL: RobotsFile = { groups: [], disallowAll: false };
+const DISALLOW_ALL: RobotsFile = { groups: [], disallowAll: true };
+
+// ---------------------------------------------------------------------------
+// Parsing / matching
+// ---------------------------------------------------------------------------
+
+export function parseRobots(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive User-agent lines share one group; the first rule closes the list
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const field = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (field === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+    } else if ((field === "allow" || field === "disallow") && current) {
+      collectingAgents = false;
+      // An empty Disallow means "nothing is disallowed" — no rule at all
+      if (value) current.rules.push({ allow: field === "allow", pattern: value });
+    }
+  }
+  return groups;
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const re = body.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${re}${anchored ? "$" : ""}`).test(path);
+}
+
+export function isAllowed(file: RobotsFile, agent: string, url: string): boolean {
+  if (file.disallowAll) return false;
+  const u = new URL(url);
+  if (u.pathname === "/robots.txt") return true;
+
+  const token = agent.toLowerCase();
+  let groups = file.groups.filter((g) => g.agents.includes(token));
+  if (!groups.length) groups = file.groups.filter((g) => g.agents.includes("*"));
+
+  const path = u.pathname + u.search;
+  let best: RobotsRule | null = null;
+  for (const rule of groups.flatMap((g) => g.rules)) {
+    if (!ruleMatches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+const cache = new Map<string, { file: Promise<RobotsFile>; expiresAt: number }>();
+
+async function fetchRobots(origin: string, scheduler: FetchScheduler): Promise<RobotsFile> {
+  try {
+    const { response, body } = await scheduler.fetch(`${origin}/robots.txt`, {
+      timeoutMs: ROBOTS_TIMEOUT_MS,
+      retry: false,
+      skipRobots: true,
+      maxBytes: MAX_ROBOTS_BYTES,
+      truncate: true,
+    });
+    if (response.status >= 500) return DISALLOW_ALL;
+    if (!response.ok) return ALLOW_ALL;
+    return { groups: parseRobots(new TextDecoder().decode(body)), disallowAll: false };
+  } catch {
+    return DISALLOW_ALL;
+  }
+}
+
+export async function robotsAllowed(url: string, agent: string, scheduler: FetchScheduler): Promise<boolean> {
+  const origin = new URL(url).origin;
+  let entry = cache.get(origin);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    entry = { file: fetchRobots(origin, scheduler), expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS };
+    cache.delete(origin);
+    cache.set(origin, entry);
+    // Map iteration order is insertion order — drop the oldest entries first
+    while (cache.size > ROBOTS_CACHE_MAX_ENTRIES) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  }
+  return isAllowed(await entry.file, agent, url);
+}
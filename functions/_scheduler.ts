@@ -0,0 +1,309 @@
+/**
+ * Fetch scheduler — every outbound request of a batch (pages, bundles,
+ * sitemaps) goes through one FetchScheduler, which bounds concurrency globally
+ * and per host and retries transient failures (timeouts, 429, 5xx) with
+ * exponential backoff, honouring Retry-After.
+ *
+ * It is also the only place that follows redirects, so the URL policy
+ * (_urlpolicy.ts) is enforced on the target and on every hop. In compliant
+ * mode it checks robots.txt (_robots.ts) for the target and for every origin
+ * a redirect leads to, and identifies itself with the crawler User-Agent.
+ */
+
+import type { Env } from "./_env";
+import { BROWSER_IDENTITY, FetchIdentity, fetchIdentity } from "./_identity";
+import { robotsAllowed } from "./_robots";
+import { BlockedTarget, checkTarget } from "./_urlpolicy";
+
+export interface SchedulerOptions {
+  concurrency?: number;      // simultaneous requests overall
+  perHost?: number;          // simultaneous requests per host (see hostKey)
+  maxAttempts?: number;
+  baseDelayMs?: number;      // first backoff; doubles on every retry
+  identity?: FetchIdentity;  // User-Agent for every request; browser by default
+  respectRobots?: boolean;
+}
+
+export interface FetchRequest {
+  headers?: Record<string, string>;
+  timeoutMs: number;
+  // Assets are best-effort — they skip retries and only take a concurrency slot
+  retry?: boolean;
+  // robots.txt itself is never subject to robots.txt
+  skipRobots?: boolean;
+  // Bodies are read up to this many bytes; a larger one (by Content-Length, or
+  // once that many bytes have streamed in) throws FetchError("body_too_large")
+  // unless `truncate` is set, in which case its head is returned
+  maxBytes?: number;
+  truncate?: boolean;
+}
+
+/** A response whose body has already been read, so its connection slot is free again. */
+export interface ScheduledResponse {
+  response: Response;
+  body: ArrayBuffer;
+  url: string;               // after redirects
+  attempts: number;
+}
+
+export class FetchError extends Error {
+  constructor(message: string, readonly attempts: number) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+/** The target or a redirect hop was rejected by the URL policy. Never retried. */
+export class BlockedTargetError extends FetchError {
+  constructor(readonly blocked: BlockedTarget, attempts: number) {
+    super("blocked_target", attempts);
+    this.name = "BlockedTargetError";
+  }
+}
+
+// Workers allow six simultaneous outbound connections per invocation
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_PER_HOST = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+// A Retry-After beyond this isn't worth holding a batch for — give up instead
+const MAX_RETRY_DELAY_MS = 10_000;
+const MAX_REDIRECTS = 10;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Requests are grouped by registrable domain (approximated from the last
+ * labels) so 40 `*.myshopify.com` shops share one host budget.
+ */
+export function hostKey(url: string): string {
+  let host: string;
+  try { host = new URL(url).hostname; }
+  catch { return url; }
+  const labels = host.split(".");
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) return host;
+  // Two-letter ccTLDs with a short second level (co.uk, com.au) keep three labels
+  const tld = labels[labels.length - 1];
+  const sld = labels[labels.length - 2];
+  return labels.slice(tld.length === 2 && sld.length <= 3 ? -3 : -2).join(".");
+}
+
+/** Seconds or an HTTP date; null when absent or unparseable. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000;
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Read a body without buffering more than `req.maxBytes` of it. */
+async function readBody(response: Response, req: FetchRequest, attempt: number): Promise<ArrayBuffer> {
+  const max = req.maxBytes;
+  if (max === undefined || !response.body) return response.arrayBuffer();
+  const declared = Number(response.headers.get("content-length"));
+  if (!req.truncate && declared > max) {
+    await response.body.cancel();
+    throw new FetchError("body_too_large", attempt);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > max || (req.truncate && size === max)) {
+      await reader.cancel();
+      if (!req.truncate) throw new FetchError("body_too_large", attempt);
+      break;
+    }
+  }
+  const body = new Uint8Array(Math.min(size, max));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, body.length - offset);
+    body.set(part, offset);
+    offset += part.length;
+    if (offset >= body.length) break;
+  }
+  return body.buffer;
+}
+
+interface FollowResult {
+  response: Response;
+  finalUrl: string;
+  hops: number;
+  // Set when following stopped at a redirect to another origin (stopAtNewOrigin)
+  next?: string;
+}
+
+/**
+ * Follow redirects by hand so each hop is checked before it is requested.
+ * With `stopAtNewOrigin`, a redirect to another origin is returned as `next`
+ * instead, so the caller can check that origin's robots.txt outside its slot.
+ */
+async function follow(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  attempt: number,
+  opts: { hops: number; stopAtNewOrigin: boolean },
+): Promise<FollowResult> {
+  let current = url;
+  for (let hop = opts.hops; ; hop++) {
+    const response = await fetch(current, { headers, signal, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, finalUrl: response.url || current, hops: hop };
+    }
+    await response.body?.cancel();
+    if (hop >= MAX_REDIRECTS) throw new FetchError("too_many_redirects", attempt);
+
+    const next = new URL(location, current).href;
+    const blocked = checkTarget(next);
+    if (blocked) throw new BlockedTargetError(blocked, attempt);
+    if (opts.stopAtNewOrigin && new URL(next).origin !== new URL(current).origin) {
+      return { response, finalUrl: current, hops: hop + 1, next };
+    }
+    current = next;
+  }
+}
+
+export class FetchScheduler {
+  private readonly concurrency: number;
+  private readonly perHost: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly identity: FetchIdentity;
+  private readonly respectRobots: boolean;
+
+  private active = 0;
+  private readonly activePerHost = new Map<string, number>();
+  private readonly waiting: Array<{ key: string; start: () => void }> = [];
+
+  constructor(opts: SchedulerOptions = {}) {
+    this.concurrency = opts.concurrency ?? DEFAULT_CONCURRENCY;
+    this.perHost = opts.perHost ?? DEFAULT_PER_HOST;
+    this.maxAttempts = opts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = opts.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.identity = opts.identity ?? BROWSER_IDENTITY;
+    this.respectRobots = opts.respectRobots ?? false;
+  }
+
+  /**
+   * Fetch `url`, following redirects. A retryable status that persists through
+   * every attempt is returned as-is for the caller to judge; a timeout on the
+   * last attempt, or any network error, throws a FetchError. A URL that
+   * robots.txt disallows throws FetchError("robots_disallowed").
+   */
+  async fetch(url: string, req: FetchRequest): Promise<ScheduledResponse> {
+    const blocked = checkTarget(url);
+    if (blocked) throw new BlockedTargetError(blocked, 0);
+
+    const checkRobots = this.respectRobots && !req.skipRobots;
+    let current = url;
+    let attempts = 0;
+    let hops = 0;
+    for (;;) {
+      // Checked before taking a slot: the robots.txt fetch needs one of its own
+      if (checkRobots && !(await robotsAllowed(current, this.identity.robotsAgent, this))) {
+        throw new FetchError("robots_disallowed", attempts);
+      }
+      const result = await this.fetchWithRetries(current, req, attempts, { hops, stopAtNewOrigin: checkRobots });
+      if (!("next" in result)) return result;
+      ({ next: current, attempts, hops } = result);
+    }
+  }
+
+  private async fetchWithRetries(
+    url: string,
+    req: FetchRequest,
+    priorAttempts: number,
+    followOpts: { hops: number; stopAtNewOrigin: boolean },
+  ): Promise<ScheduledResponse | { next: string; attempts: number; hops: number }> {
+    const key = hostKey(url);
+    const maxAttempts = req.retry === false ? 1 : this.maxAttempts;
+    const headers = { "User-Agent": this.identity.userAgent, ...req.headers };
+
+    for (let attempt = 1; ; attempt++) {
+      const total = priorAttempts + attempt;
+      let retryDelay: number | null = null;
+      const release = await this.acquire(key);
+      try {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), req.timeoutMs);
+        try {
+          const { response, finalUrl, hops, next } = await follow(url, headers, controller.signal, total, followOpts);
+          if (next) return { next, attempts: total, hops };
+          const body = await readBody(response, req, total);
+          if (!isRetryableStatus(response.status) || attempt >= maxAttempts) {
+            return { response, body, url: finalUrl, attempts: total };
+          }
+          retryDelay = parseRetryAfter(response.headers.get("retry-after"));
+        } catch (err: unknown) {
+          if (err instanceof FetchError) throw err;
+          if (!controller.signal.aborted) {
+            throw new FetchError(err instanceof Error ? err.message : String(err), total);
+          }
+          if (attempt >= maxAttempts) throw new FetchError("timeout", total);
+        } finally {
+          clearTimeout(timer);
+        }
+      } finally {
+        release();
+      }
+
+      // Backoff happens outside the slot so other hosts keep moving
+      const delay = retryDelay ?? this.baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      if (delay > MAX_RETRY_DELAY_MS) throw new FetchError(`retry_after_too_long (${Math.ceil(delay / 1000)}s)`, total);
+      await sleep(delay);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Slots
+  // -------------------------------------------------------------------------
+
+  private acquire(key: string): Promise<() => void> {
+    return new Promise((resolve) => {
+      this.waiting.push({ key, start: () => resolve(() => this.release(key)) });
+      this.dispatch();
+    });
+  }
+
+  private release(key: string): void {
+    this.active--;
+    const n = (this.activePerHost.get(key) ?? 1) - 1;
+    if (n > 0) this.activePerHost.set(key, n);
+    else this.activePerHost.delete(key);
+    this.dispatch();
+  }
+
+  // Start waiters in FIFO order, skipping those whose host is at its limit
+  private dispatch(): void {
+    for (let i = 0; i < this.waiting.length && this.active < this.concurrency;) {
+      const { key, start } = this.waiting[i];
+      const hostActive = this.activePerHost.get(key) ?? 0;
+      if (hostActive >= this.perHost) {
+        i++;
+        continue;
+      }
+      this.waiting.splice(i, 1);
+      this.active++;
+      this.activePerHost.set(key, hostActive + 1);
+      start();
+    }
+  }
+}
+
+/** A scheduler with the deployment's identity; `compliant` comes from respectRobots(). */
+export function createScheduler(env: Env, compliant: boolean): FetchScheduler {
+  return new FetchScheduler({ identity: fetchIdentity(env, compliant), respectRobots: compliant });
+}
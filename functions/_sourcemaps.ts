@@ -0,0 +1,92 @@
+/**
+ * Source maps — the original file paths and sources behind minified bundles.
+ *
+ * AI app builders ship their maps more often than not, and a map shows what
+ * minification hides: `src/components/ui/*.tsx`, `HeroSection.tsx`, tutorial
+ * comments. Maps are found through a bundle's SourceMap header or trailing
+ * `//# sourceMappingURL=` comment, fetched same-origin only and within a size
+ * budget. Only the app's own files keep their content — library code
+ * (node_modules, webpack runtime) is listed by path alone, since its comments
+ * say nothing about who wrote the app.
+ */
+
+export interface SourceFile {
+  path: string;
+  // null for library files and when the map carries no sourcesContent
+  content: string | null;
+}
+
+// Maps of real apps run to several MB; anything bigger is skipped, not truncated (truncated JSON is useless)
+export const MAX_SOURCE_MAP_BYTES = 5_000_000;
+// Total original source kept per map
+const MAX_SOURCE_TEXT = 1_000_000;
+const MAX_SOURCE_FILES = 2000;
+
+const MAP_COMMENT = /\/[/*][#@]\s*sourceMappingURL=([^\s*'"]+)\s*(?:\*\/)?\s*$/;
+const LIBRARY_PATH = /(?:^|\/)node_modules\/|^\(webpack\)|^webpack\/|^\u0000|^vite\//;
+
+/**
+ * The map a bundle points at: its SourceMap header, else the trailing comment.
+ * Relative to the bundle. Inline `data:` maps (dev builds) are not followed.
+ */
+export function findSourceMapRef(content: string, headers: Headers): string | null {
+  const header = headers.get("sourcemap") ?? headers.get("x-sourcemap");
+  if (header) return header.trim();
+  // The comment must be the last line; only the tail is searched
+  const m = content.slice(-2000).match(MAP_COMMENT);
+  return m ? m[1] : null;
+}
+
+function normalizePath(path: string): string {
+  return path
+    .replace(/^webpack:\/\/[^/]*\//, "")
+    .replace(/^(?:\.\.?\/)+/, "")
+    .replace(/^\/+/, "");
+}
+
+/** Source files listed in a map (index maps included), or null when it isn't one. */
+export function parseSourceMap(text: string): SourceFile[] | null {
+  let map: unknown;
+  try { map = JSON.parse(text); }
+  catch { return null; }
+  if (typeof map !== "object" || map === null) return null;
+
+  const files: SourceFile[] = [];
+  let budget = MAX_SOURCE_TEXT;
+  const collect = (m: Record<string, unknown>) => {
+    const sources = Array.isArray(m.sources) ? m.sources : [];
+    const contents = Array.isArray(m.sourcesContent) ? m.sourcesContent : [];
+    sources.forEach((raw, i) => {
+      if (typeof raw !== "string" || files.length >= MAX_SOURCE_FILES) return;
+      const path = normalizePath(raw);
+      let content = LIBRARY_PATH.test(path) || typeof contents[i] !== "string" ? null : contents[i] as string;
+      if (content !== null) {
+        if (content.length > budget) content = null;
+        else budget -= content.length;
+      }
+      files.push({ path, content });
+    });
+  };
+
+  const root = map as Record<string, unknown>;
+  if (Array.isArray(root.sections)) {
+    for (const section of root.sections) {
+      if (typeof section === "object" && section !== null && typeof (section as Record<string, unknown>).map === "object") {
+        collect((section as { map: Record<string, unknown> }).map);
+      }
+    }
+  } else if (Array.isArray(root.sources)) {
+    collect(root);
+  } else {
+    return null;
+  }
+  return files;
+}
+
+/** Paths, then the app's own sources — the text fingerprints are matched against. */
+export function sourceMapText(files: SourceFile[]): string {
+  return [
+    ...files.map((f) => f.path),
+    ...files.flatMap((f) => (f.content !== null ? [f.content] : [])),
+  ].join("\n");
+}
@@ -0,0 +1,347 @@
+/**
+ * Stack detection — the front-end framework, build tool, UI libraries, host
+ * and analytics tags a page was built and served with ("Next.js 14 on
+ * Vercel", "Astro on Cloudflare Pages").
+ *
+ * These are facts, not verdicts: the stack is reported as-is in
+ * DetectionResult.stack, and the AI heuristics in _detector.ts read it to
+ * decide which choices are typical of AI-generated code.
+ */
+
+import type { Asset } from "./_assets";
+import type { HtmlFacts } from "./_html";
+
+export interface StackComponent {
+  name: string;
+  version: string | null;
+  // What gave it away, one entry per matched rule
+  evidence: string[];
+  // Asset URL behind the strongest evidence, when it wasn't the page itself
+  source?: string;
+}
+
+export interface Stack {
+  framework: StackComponent | null;
+  buildTool: StackComponent | null;
+  uiLibraries: StackComponent[];
+  // Hosting platform or CDN; `defaultDomain` when served from its own subdomain (foo.vercel.app)
+  host: (StackComponent & { defaultDomain: boolean }) | null;
+  analytics: StackComponent[];
+  // The HTML is an empty client-rendered mount point (<div id="root"></div>)
+  spaShell: boolean;
+}
+
+interface SourceText {
+  source?: string;
+  text: string;
+}
+
+// [pattern, evidence]; a capture group, when present, is the version
+type Rule = [pattern: RegExp, evidence: string];
+
+interface ComponentRule {
+  name: string;
+  // Matched against the page's structural fields and fetched script bundles
+  code?: Rule[];
+  // Matched against asset URLs (script src, link href)
+  urls?: Rule[];
+  meta?: Rule[];
+  headers?: Array<[header: string, pattern: RegExp, evidence: string]>;
+  ids?: Rule[];
+  elements?: Rule[];
+  attributes?: Rule[];
+  styles?: Rule[];
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+// Listed in priority order — on equal evidence the earlier framework wins
+const FRAMEWORKS: ComponentRule[] = [
+  {
+    name: "Next.js",
+    urls: [[/\/_next\/static\//, "/_next/static/ assets"]],
+    ids: [[/^__NEXT_DATA__$/, "__NEXT_DATA__ script"], [/^__next$/, "#__next root"]],
+    code: [
+      [/window\.next\s*=\s*\{\s*version:\s*"(\d+\.\d+\.\d+[^"]*)"/, "window.next version"],
+      [/self\.__next_f\b/, "App Router flight data (self.__next_f)"],
+    ],
+    meta: [[/name="generator" content="Next\.js/, "generator meta tag"]],
+    headers: [["x-powered-by", /Next\.js/i, "x-powered-by: Next.js"], ["x-nextjs-cache", /./, "x-nextjs-cache header"]],
+  },
+  {
+    name: "Nuxt",
+    urls: [[/\/_nuxt\//, "/_nuxt/ assets"]],
+    ids: [[/^__nuxt$/, "#__nuxt root"]],
+    code: [[/window\.__NUXT__/, "window.__NUXT__ payload"]],
+    meta: [[/name="generator" content="Nuxt(?: (\d+\.\d+\.\d+))?/, "generator meta tag"]],
+    headers: [["x-powered-by", /Nuxt/i, "x-powered-by: Nuxt"]],
+  },
+  {
+    name: "Remix",
+    code: [
+      [/window\.__remixContext\b/, "window.__remixContext"],
+      [/window\.__remixManifest\b/, "window.__remixManifest"],
+      [/window\.__reactRouterContext\b/, "window.__reactRouterContext (React Router 7)"],
+    ],
+    urls: [[/\/build\/entry\.client-[A-Za-z0-9]+\.js/, "Remix entry.client bundle"]],
+  },
+  {
+    name: "Astro",
+    meta: [[/name="generator" content="Astro v(\d+\.\d+\.\d+)/, "generator meta tag"]],
+    urls: [[/\/_astro\//, "/_astro/ assets"]],
+    elements: [[/^<astro-island\b/, "<astro-island> element"]],
+    attributes: [[/^data-astro-cid-/, "data-astro-cid-* attribute"]],
+  },
+  {
+    name: "SvelteKit",
+    urls: [[/\/_app\/immutable\//, "/_app/immutable/ assets"]],
+    attributes: [[/^data-sveltekit-/, "data-sveltekit-* attribute"]],
+    code: [[/\b__sveltekit_[a-z0-9]+/, "__sveltekit_* global"]],
+  },
+  {
+    name: "Gatsby",
+    meta: [[/name="generator" content="Gatsby (\d+\.\d+\.\d+)/, "generator meta tag"]],
+    ids: [[/^___gatsby$/, "#___gatsby root"]],
+    urls: [[/\/webpack-runtime-[a-f0-9]+\.js/, "Gatsby webpack runtime"], [/\/page-data\//, "/page-data/ assets"]],
+  },
+  {
+    name: "Angular",
+    elements: [[/ng-version="(\d+\.\d+\.\d+[^"]*)"/, "ng-version attribute"], [/^<app-root\b/, "<app-root> element"]],
+    code: [[/\bplatformBrowser\(\)\.bootstrapModule\b|\bɵcmp\b/, "Angular runtime in bundle"]],
+  },
+];
+
+const VITE: ComponentRule = {
+  name: "Vite",
+  urls: [
+    // Vite default output: /assets/index-[hash].js and its CSS chunk
+    [/\/assets\/index-[A-Za-z0-9_-]{6,12}\.js/, "/assets/index-[hash].js bundle"],
+    [/\/assets\/index-[A-Za-z0-9_-]{6,12}\.css/, "/assets/index-[hash].css chunk"],
+  ],
+};
+
+const REACT: Rule[] = [
+  [/version:"(\d+\.\d+\.\d+)",rendererPackageName:"react-dom"/, "react-dom renderer"],
+  [/__reactContainer\$|react\.production\.min\.js|react-dom/, "React runtime in bundle"],
+];
+
+const UI_LIBRARIES: ComponentRule[] = [
+  {
+    name: "Tailwind CSS",
+    styles: [[/tailwindcss v(\d+\.\d+\.\d+)/, "tailwindcss banner in stylesheet"]],
+    code: [
+      // Utility combos typical of AI output (verbose, stacked)
+      [/class(?:Name)?="[^"]*(?:flex|grid)[^"]*(?:items-center|justify-between)[^"]*(?:gap-|space-)[^"]*"/, "stacked flex/grid utilities"],
+      // Responsive + dark mode prefixes
+      [/class(?:Name)?="[^"]*(?:sm:|md:|lg:|xl:|dark:){3,}[^"]*"/, "responsive/dark variant prefixes"],
+      // Default color scale
+      [/(?:bg|text|border)-(?:slate|gray|zinc|neutral|stone|blue|indigo|violet|purple)-(?:50|100|200|300|400|500|600|700|800|900|950)/, "default color scale utilities"],
+    ],
+  },
+  {
+    // Very specific class combos generated by shadcn components
+    name: "shadcn/ui",
+    code: [
+      [/rounded-lg border bg-card text-card-foreground shadow/, "Card classes"],
+      [/inline-flex items-center justify-center (?:gap-2 )?whitespace-nowrap rounded-md text-sm font-medium/, "Button classes"],
+      [/inline-flex items-center rounded-full border px-2\.5 py-0\.5 text-xs font-semibold/, "Badge classes"],
+      [/flex h-(?:9|10) w-full rounded-md border border-input bg-background px-3 py-[12]/, "Input classes"],
+      [/fixed inset-0 z-50 bg-black\/80/, "Dialog overlay classes"],
+      [/fixed inset-y-0 z-50 flex (?:h-full )?flex-col/, "Sheet/sidebar classes"],
+      [/function cn\([^)]*\)\s*\{[\s\S]{0,100}clsx|twMerge/, "cn() utility"],
+      [/@radix-ui\//, "@radix-ui import"],
+    ],
+  },
+  {
+    name: "MUI",
+    code: [[/\bMui[A-Z][A-Za-z]+-root\b/, "Mui*-root classes"], [/@mui\/material/, "@mui/material import"]],
+  },
+  {
+    name: "Chakra UI",
+    code: [[/\bchakra-[a-z]+(?:__[a-z]+)?\b/, "chakra-* classes"], [/--chakra-[a-z]/, "--chakra-* CSS variables"]],
+    styles: [[/--chakra-[a-z]/, "--chakra-* CSS variables"]],
+  },
+  {
+    name: "Bootstrap",
+    urls: [[/bootstrap(?:@(\d+\.\d+\.\d+))?\/dist\/|bootstrap(?:\.bundle)?\.min\.(?:css|js)/, "Bootstrap asset"]],
+    styles: [[/Bootstrap\s+v(\d+\.\d+\.\d+)/, "Bootstrap banner in stylesheet"]],
+  },
+  {
+    name: "Lucide",
+    code: [
+      [/lucide[-_]react/i, "lucide-react"],
+      [/lucide/i, "lucide reference"],
+      // Two common path segments of inlined Lucide SVGs
+      [/M\s*12\s+2[Cc]\s*6\.477\s+2/, "Lucide circle icon path"],
+      [/M\s*3\s+12[Hh]\s*21/, "Lucide arrow icon path"],
+    ],
+  },
+];
+
+// Specific hosts before generic CDNs — a Vercel site behind Cloudflare is still on Vercel
+const HOSTS: Array<ComponentRule & { domains?: RegExp[] }> = [
+  { name: "Vercel", domains: [/\.vercel\.app$/i], headers: [["x-vercel-id", /./, "x-vercel-id header"], ["x-vercel-cache", /./, "x-vercel-cache header"], ["server", /^Vercel$/i, "server: Vercel"]] },
+  { name: "Netlify", domains: [/\.netlify\.app$/i], headers: [["x-nf-request-id", /./, "x-nf-request-id header"], ["x-netlify", /./, "x-netlify header"], ["server", /^Netlify$/i, "server: Netlify"]] },
+  { name: "Cloudflare Pages", domains: [/\.pages\.dev$/i] },
+  { name: "GitHub Pages", domains: [/\.github\.io$/i], headers: [["server", /^GitHub\.com$/i, "server: GitHub.com"]] },
+  { name: "Firebase Hosting", domains: [/\.web\.app$/i, /\.firebaseapp\.com$/i] },
+  { name: "Render", domains: [/\.onrender\.com$/i], headers: [["x-render-origin-server", /./, "x-render-origin-server header"]] },
+  { name: "Fly.io", domains: [/\.fly\.dev$/i], headers: [["fly-request-id", /./, "fly-request-id header"]] },
+  { name: "Railway", domains: [/\.railway\.app$/i, /\.up\.railway\.app$/i] },
+  { name: "Heroku", domains: [/\.herokuapp\.com$/i] },
+  { name: "Glitch", domains: [/\.glitch\.me$/i] },
+  { name: "StackBlitz", domains: [/\.stackblitz\.io$/i] },
+  { name: "CodeSandbox", domains: [/\.codesandbox\.io$/i] },
+  { name: "Cloudflare", headers: [["cf-ray", /./, "cf-ray header"], ["server", /^cloudflare$/i, "server: cloudflare"]] },
+  { name: "Amazon CloudFront", headers: [["x-amz-cf-id", /./, "x-amz-cf-id header"], ["via", /CloudFront/i, "via: CloudFront"]] },
+  { name: "Fastly", headers: [["x-fastly-request-id", /./, "x-fastly-request-id header"], ["x-served-by", /^cache-/i, "x-served-by: cache-*"]] },
+];
+
+const ANALYTICS: ComponentRule[] = [
+  { name: "Google Analytics", urls: [[/googletagmanager\.com\/gtag\/js\?id=(?:G|UA)-/, "gtag.js"], [/google-analytics\.com\/(?:analytics|ga)\.js/, "analytics.js"]], code: [[/gtag\(\s*['"]config['"]\s*,\s*['"](?:G|UA)-/, "gtag('config') call"]] },
+  { name: "Google Tag Manager", urls: [[/googletagmanager\.com\/gtm\.js/, "gtm.js"]], code: [[/GTM-[A-Z0-9]{4,}/, "GTM container ID"]] },
+  { name: "Plausible", urls: [[/plausible\.io\/js\//, "plausible.io script"]] },
+  { name: "Fathom", urls: [[/cdn\.usefathom\.com/, "Fathom script"]] },
+  { name: "Vercel Analytics", urls: [[/\/_vercel\/insights\/script\.js/, "/_vercel/insights script"]] },
+  { name: "Vercel Speed Insights", urls: [[/\/_vercel\/speed-insights\/script\.js/, "/_vercel/speed-insights script"]] },
+  { name: "Cloudflare Web Analytics", urls: [[/static\.cloudflareinsights\.com\/beacon/, "Cloudflare beacon"]] },
+  { name: "PostHog", urls: [[/(?:us|eu)(?:-assets)?\.i\.posthog\.com|app\.posthog\.com/, "PostHog script"]], code: [[/posthog\.init\(/, "posthog.init() call"]] },
+  { name: "Segment", urls: [[/cdn\.segment\.com\/analytics\.js/, "Segment analytics.js"]] },
+  { name: "Mixpanel", urls: [[/cdn\.mxpnl\.com/, "Mixpanel script"]], code: [[/mixpanel\.init\(/, "mixpanel.init() call"]] },
+  { name: "Hotjar", urls: [[/static\.hotjar\.com/, "Hotjar script"]] },
+  { name: "Microsoft Clarity", urls: [[/clarity\.ms\/tag\//, "Clarity tag"]] },
+  { name: "Meta Pixel", urls: [[/connect\.facebook\.net\/[^/]+\/fbevents\.js/, "fbevents.js"]], code: [[/fbq\(\s*['"]init['"]/, "fbq('init') call"]] },
+  { name: "Umami", urls: [[/umami\.is\/script\.js|\/umami\.js/, "Umami script"]] },
+];
+
+// Empty mount points of client-rendered apps
+const SPA_ROOT_IDS = ["root", "app"];
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+interface Inputs {
+  code: SourceText[];
+  urls: string;
+  meta: string;
+  headers: Record<string, string>;
+  ids: string[];
+  elements: string[];
+  attributes: string[];
+  styles: SourceText[];
+}
+
+function matchComponent(rule: ComponentRule, inputs: Inputs): StackComponent | null {
+  const evidence: string[] = [];
+  let version: string | null = null;
+  let source: string | undefined;
+  let sourceHits = 0;
+
+  const note = (m: RegExpMatchArray | null | undefined, label: string): boolean => {
+    if (!m) return false;
+    if (!evidence.includes(label)) evidence.push(label);
+    version ??= m[1] ?? null;
+    return true;
+  };
+  const inSources = (sources: SourceText[], rules: Rule[] = []) => {
+    const hitsBySource = new Map<string | undefined, number>();
+    for (const [re, label] of rules) {
+      for (const s of sources) {
+        if (!note(s.text.match(re), label)) continue;
+        hitsBySource.set(s.source, (hitsBySource.get(s.source) ?? 0) + 1);
+        break;
+      }
+    }
+    for (const [s, n] of hitsBySource) {
+      if (n > sourceHits) { sourceHits = n; source = s; }
+    }
+  };
+  const inList = (items: string[], rules: Rule[] = []) => {
+    for (const [re, label] of rules) note(items.map((i) => i.match(re)).find(Boolean), label);
+  };
+
+  inSources(inputs.code, rule.code);
+  inSources(inputs.styles, rule.styles);
+  for (const [re, label] of rule.urls ?? []) note(inputs.urls.match(re), label);
+  for (const [re, label] of rule.meta ?? []) note(inputs.meta.match(re), label);
+  for (const [header, re, label] of rule.headers ?? []) {
+    const value = inputs.headers[header];
+    if (value) note(value.match(re), label);
+  }
+  inList(inputs.ids, rule.ids);
+  inList(inputs.elements, rule.elements);
+  inList(inputs.attributes, rule.attributes);
+
+  if (!evidence.length) return null;
+  return source ? { name: rule.name, version, evidence, source } : { name: rule.name, version, evidence };
+}
+
+function detectHost(hostname: string, inputs: Inputs): Stack["host"] {
+  // The hostname is conclusive, so it is checked for every host before any header
+  const byDomain = HOSTS.find((rule) => rule.domains?.some((re) => re.test(hostname)));
+  if (byDomain) {
+    const evidence = [`${hostname} subdomain`, ...(matchComponent(byDomain, inputs)?.evidence ?? [])];
+    return { name: byDomain.name, version: null, evidence, defaultDomain: true };
+  }
+  for (const rule of HOSTS) {
+    const match = matchComponent(rule, inputs);
+    if (match) return { ...match, defaultDomain: false };
+  }
+  return null;
+}
+
+export function detectStack(facts: HtmlFacts, headers: Record<string, string>, finalUrl: string, assets: Asset[]): Stack {
+  // The same structural fields the AI heuristics read — visible copy is left out
+  const pageCode = [
+    facts.comments.map((c) => `<!--${c}-->`).join("\n"),
+    facts.inlineScripts.join("\n"),
+    facts.classAttrs.map((c) => `class="${c}"`).join("\n"),
+    facts.svgPaths.join("\n"),
+    [...facts.scriptSrcs, ...facts.links.map((l) => l.href)].join("\n"),
+  ].join("\n");
+  const inputs: Inputs = {
+    code: [
+      { text: pageCode },
+      ...assets.filter((a) => a.kind === "script").map((a) => ({ source: a.url, text: a.content })),
+    ],
+    urls: [...facts.scriptSrcs, ...facts.links.map((l) => l.href)].join("\n"),
+    meta: facts.metaTags.join("\n"),
+    headers,
+    ids: facts.ids,
+    elements: facts.customElements,
+    attributes: facts.dataAttributes,
+    styles: [
+      { text: facts.inlineStyles.join("\n") },
+      ...assets.filter((a) => a.kind === "stylesheet").map((a) => ({ source: a.url, text: a.content })),
+    ],
+  };
+
+  const spaShell = facts.emptyMountPoints.some((id) => SPA_ROOT_IDS.includes(id));
+  const buildTool = matchComponent(VITE, inputs);
+
+  let framework: StackComponent | null = null;
+  for (const rule of FRAMEWORKS) {
+    const match = matchComponent(rule, inputs);
+    if (match && (!framework || match.evidence.length > framework.evidence.length)) framework = match;
+  }
+  // A plain Vite app is named after its UI runtime
+  if (!framework && buildTool) {
+    const react = matchComponent({ name: "Vite + React", code: REACT, ids: [[/^root$/, "#root mount point"]] }, inputs);
+    if (react) framework = react;
+  }
+
+  let hostname = "";
+  try { hostname = new URL(finalUrl).hostname; } catch { /* leave empty */ }
+
+  return {
+    framework,
+    buildTool,
+    uiLibraries: UI_LIBRARIES.map((r) => matchComponent(r, inputs)).filter((c): c is StackComponent => c !== null),
+    host: detectHost(hostname, inputs),
+    analytics: ANALYTICS.map((r) => matchComponent(r, inputs)).filter((c): c is StackComponent => c !== null),
+    spaShell,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Target policy — the detector fetches arbitrary user-supplied URLs, so every
+ * URL (and every redirect hop, see FetchScheduler) is checked before it is
+ * requested. Only http(s) on the default ports to public hosts is allowed:
+ * loopback, private, link-local and reserved addresses, internal hostnames
+ * and cloud metadata endpoints are rejected.
+ *
+ * Hostnames are not resolved here; names that resolve to private addresses
+ * are left to the platform (Workers cannot reach private networks).
+ */
+
+export type BlockReason =
+  | "invalid_url"
+  | "scheme"
+  | "port"
+  | "loopback"
+  | "private"
+  | "link_local"
+  | "reserved"
+  | "internal_hostname";
+
+export interface BlockedTarget {
+  url: string;
+  reason: BlockReason;
+}
+
+const ALLOWED_PORTS = new Set(["", "80", "443"]);
+
+// Suffixes that only resolve inside a private network
+const INTERNAL_SUFFIXES = [".local", ".localdomain", ".internal", ".intranet", ".lan", ".home.arpa", ".corp"];
+
+type Range = [base: number[], prefixLength: number, reason: BlockReason];
+
+const IPV4_RANGES: Range[] = [
+  [[0, 0, 0, 0], 8, "reserved"],
+  [[10, 0, 0, 0], 8, "private"],
+  [[100, 64, 0, 0], 10, "private"],        // carrier-grade NAT
+  [[127, 0, 0, 0], 8, "loopback"],
+  [[169, 254, 0, 0], 16, "link_local"],    // includes 169.254.169.254 metadata
+  [[172, 16, 0, 0], 12, "private"],
+  [[192, 0, 0, 0], 24, "reserved"],
+  [[192, 0, 2, 0], 24, "reserved"],
+  [[192, 88, 99, 0], 24, "reserved"],
+  [[192, 168, 0, 0], 16, "private"],
+  [[198, 18, 0, 0], 15, "reserved"],
+  [[198, 51, 100, 0], 24, "reserved"],
+  [[203, 0, 113, 0], 24, "reserved"],
+  [[224, 0, 0, 0], 4, "reserved"],         // multicast
+  [[240, 0, 0, 0], 4, "reserved"],         // includes broadcast
+];
+
+// Hextets; addresses that wrap an IPv4 address are unwrapped and checked as IPv4 (see embeddedIpv4)
+const IPV6_RANGES: Range[] = [
+  [[0, 0, 0, 0, 0, 0, 0, 0], 128, "reserved"],
+  [[0, 0, 0, 0, 0, 0, 0, 1], 128, "loopback"],
+  [[0x100, 0, 0, 0, 0, 0, 0, 0], 64, "reserved"],
+  [[0x2001, 0xdb8, 0, 0, 0, 0, 0, 0], 32, "reserved"],
+  [[0xfc00, 0, 0, 0, 0, 0, 0, 0], 7, "private"],
+  [[0xfe80, 0, 0, 0, 0, 0, 0, 0], 10, "link_local"],
+  [[0xfec0, 0, 0, 0, 0, 0, 0, 0], 10, "private"],
+  [[0xff00, 0, 0, 0, 0, 0, 0, 0], 8, "reserved"],
+];
+
+function inRange(addr: number[], base: number[], prefixLength: number, bitsPerPart: number): boolean {
+  let bits = prefixLength;
+  for (let i = 0; i < addr.length && bits > 0; i++) {
+    const take = Math.min(bits, bitsPerPart);
+    const shift = bitsPerPart - take;
+    if (addr[i] >> shift !== base[i] >> shift) return false;
+    bits -= take;
+  }
+  return true;
+}
+
+function matchRanges(addr: number[], ranges: Range[], bitsPerPart: number): BlockReason | null {
+  for (const [base, prefixLength, reason] of ranges) {
+    if (inRange(addr, base, prefixLength, bitsPerPart)) return reason;
+  }
+  return null;
+}
+
+function parseIpv4(host: string): number[] | null {
+  // The URL parser already normalizes decimal, octal and hex forms to dotted quads
+  const m = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!m) return null;
+  const parts = m.slice(1).map(Number);
+  return parts.every((p) => p <= 255) ? parts : null;
+}
+
+function parseIpv6(host: string): number[] | null {
+  let text = host.replace(/^\[|\]$/g, "").toLowerCase();
+  // Trailing dotted IPv4 (::ffff:1.2.3.4) becomes two hextets
+  const v4 = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const p = parseIpv4(v4[2]);
+    if (!p) return null;
+    text = `${v4[1]}${((p[0] << 8) | p[1]).toString(16)}:${((p[2] << 8) | p[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const parts = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!parts.every((p) => /^[0-9a-f]{1,4}$/.test(p))) return null;
+  return parts.map((p) => parseInt(p, 16));
+}
+
+/** The IPv4 address an IPv6 address wraps, or null when it wraps none. */
+function embeddedIpv4(v6: number[]): number[] | null {
+  const octets = (hi: number, lo: number) => [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff];
+  const prefix = v6.slice(0, 6).join(",");
+  if (prefix === "0,0,0,0,0,65535") return octets(v6[6], v6[7]);                        // ::ffff:0:0/96, mapped
+  if (prefix === "0,0,0,0,0,0" && (v6[6] || v6[7] > 1)) return octets(v6[6], v6[7]);    // ::/96, compatible (not :: or ::1)
+  if (v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((h) => h === 0)) return octets(v6[6], v6[7]); // 64:ff9b::/96, NAT64
+  if (v6[0] === 0x2002) return octets(v6[1], v6[2]);                                   // 2002::/16, 6to4
+  return null;
+}
+
+function checkAddress(hostname: string): BlockReason | null {
+  const v4 = parseIpv4(hostname);
+  if (v4) return matchRanges(v4, IPV4_RANGES, 8);
+
+  if (!hostname.startsWith("[")) return null;
+  const v6 = parseIpv6(hostname);
+  if (!v6) return "invalid_url";
+  const inner = embeddedIpv4(v6);
+  if (inner) return matchRanges(inner, IPV4_RANGES, 8);
+  return matchRanges(v6, IPV6_RANGES, 16);
+}
+
+function checkHostname(hostname: string): BlockReason | null {
+  const host = hostname.replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return "loopback";
+  // Single-label names (intranet hosts, `https://ftp//…` from a mangled scheme)
+  if (!host.includes(".")) return "internal_hostname";
+  if (INTERNAL_SUFFIXES.some((s) => host.endsWith(s))) return "internal_hostname";
+  return null;
+}
+
+/** Returns why `url` may not be fetched, or null when it is allowed. */
+export function checkTarget(url: string): BlockedTarget | null {
+  let u: URL;
+  try { u = new URL(url); }
+  catch { return { url, reason: "invalid_url" }; }
+
+  let reason: BlockReason | null = null;
+  if (u.protocol !== "http:" && u.protocol !== "https:") reason = "scheme";
+  else if (!ALLOWED_PORTS.has(u.port)) reason = "port";
+  else reason = u.hostname.startsWith("[") || parseIpv4(u.hostname)
+    ? checkAddress(u.hostname)
+    : checkHostname(u.hostname.toLowerCase());
+
+  return reason ? { url: u.href, reason } : null;
+}
@@ -0,0 +1,54 @@
+import { getAuthStore, parseLimits, requireAdmin } from "../../../_auth";
+import type { Env } from "../../../_env";
+
+/** PATCH { name?, limits?, disabled? } — limits are merged into the current ones. */
+export const onRequestPatch: PagesFunction<Env, "id"> = async (ctx) => {
+  const denied = await requireAdmin(ctx.request, ctx.env);
+  if (denied) return denied;
+
+  const store = getAuthStore(ctx.env);
+  const hash = await store.findKeyHash(String(ctx.params.id));
+  const record = hash ? await store.getKey(hash) : null;
+  if (!hash || !record) {
+    return Response.json({ error: "Key not found" }, { status: 404 });
+  }
+
+  let body: { name?: unknown; limits?: unknown; disabled?: unknown };
+  try {
+    body = await ctx.request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const limits = parseLimits(body.limits);
+  if (typeof limits === "string") {
+    return Response.json({ error: limits }, { status: 400 });
+  }
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) {
+    return Response.json({ error: "Expected 'name' to be a non-empty string" }, { status: 400 });
+  }
+  if (body.disabled !== undefined && typeof body.disabled !== "boolean") {
+    return Response.json({ error: "Expected 'disabled' to be a boolean" }, { status: 400 });
+  }
+
+  const updated = {
+    ...record,
+    name: typeof body.name === "string" ? body.name.trim() : record.name,
+    limits: { ...record.limits, ...limits },
+    disabled: typeof body.disabled === "boolean" ? body.disabled : record.disabled,
+  };
+  await store.putKey(hash, updated);
+  return Response.json(updated);
+};
+
+export const onRequestDelete: PagesFunction<Env, "id"> = async (ctx) => {
+  const denied = await requireAdmin(ctx.request, ctx.env);
+  if (denied) return denied;
+
+  const store = getAuthStore(ctx.env);
+  const hash = await store.findKeyHash(String(ctx.params.id));
+  if (!hash) {
+    return Response.json({ error: "Key not found" }, { status: 404 });
+  }
+  await store.deleteKey(hash);
+  return new Response(null, { status: 204 });
+};
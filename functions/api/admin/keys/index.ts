@@ -0,0 +1,35 @@
+import { createApiKey, getAuthStore, parseLimits, requireAdmin } from "../../../_auth";
+import type { Env } from "../../../_env";
+
+/** GET — list keys (never the keys themselves). */
+export const onRequestGet: PagesFunction<Env> = async (ctx) => {
+  const denied = await requireAdmin(ctx.request, ctx.env);
+  if (denied) return denied;
+  return Response.json({ keys: await getAuthStore(ctx.env).listKeys() });
+};
+
+/**
+ * POST { name, limits?: { perMinute?, perDay?, monthlyUrls? } }
+ * The plaintext key is only ever returned here.
+ */
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const denied = await requireAdmin(ctx.request, ctx.env);
+  if (denied) return denied;
+
+  let body: { name?: unknown; limits?: unknown };
+  try {
+    body = await ctx.request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    return Response.json({ error: "Expected 'name' (string)" }, { status: 400 });
+  }
+  const limits = parseLimits(body.limits);
+  if (typeof limits === "string") {
+    return Response.json({ error: limits }, { status: 400 });
+  }
+
+  const { key, record } = await createApiKey(getAuthStore(ctx.env), body.name.trim(), limits);
+  return Response.json({ key, ...record }, { status: 201 });
+};
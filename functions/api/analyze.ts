@@ -0,0 +1,109 @@
+import { checkRateLimit } from "../_auth";
+import { analyzeSnapshot, normalizeUrl, SnapshotInput } from "../_detector";
+import type { DnsRecords } from "../_dns";
+import type { Env } from "../_env";
+import { loadFingerprintPack } from "../_fingerprints";
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// HTML plus bundles for a typical SPA stays well under this
+const MAX_BODY_BYTES = 5_000_000;
+
+export const onRequestOptions: PagesFunction = async () =>
+  new Response(null, { headers: CORS });
+
+/**
+ * POST { url, html, headers?, assets?: [{ url, content, kind? }],
+ *        dns?: { hostname, cnames: [], addresses: [], txt: [{ name, value }] } }
+ * Classifies a page the caller captured themselves — nothing is fetched.
+ * `dns` holds the records the caller resolved for the page's hostname.
+ */
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const length = parseInt(ctx.request.headers.get("content-length") ?? "0", 10);
+  if (length > MAX_BODY_BYTES) {
+    return Response.json({ error: `Body too large. Max ${MAX_BODY_BYTES} bytes.` }, { status: 413, headers: CORS });
+  }
+
+  let body: Partial<SnapshotInput>;
+  try {
+    body = await ctx.request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400, headers: CORS });
+  }
+
+  const error = validateInput(body);
+  if (error) {
+    return Response.json({ error }, { status: 400, headers: CORS });
+  }
+
+  const limit = await checkRateLimit(ctx.request, ctx.env, 1, CORS);
+  if (!limit.ok) return limit.response;
+
+  try {
+    const pack = await loadFingerprintPack(ctx.env);
+    const result = analyzeSnapshot(body as SnapshotInput, pack);
+    return Response.json(result, { headers: limit.headers });
+  } catch (err: unknown) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500, headers: limit.headers },
+    );
+  }
+};
+
+function validateInput(body: Partial<SnapshotInput>): string | null {
+  if (typeof body !== "object" || body === null) return "Expected a JSON object";
+  if (typeof body.url !== "string" || !body.url.trim()) return "Expected 'url' (string)";
+  if (typeof body.html !== "string") return "Expected 'html' (string)";
+  let pageUrl: URL;
+  try { pageUrl = new URL(normalizeUrl(body.url)); }
+  catch { return `Invalid 'url': ${body.url}`; }
+
+  if (body.headers !== undefined) {
+    if (typeof body.headers !== "object" || body.headers === null || Array.isArray(body.headers)) {
+      return "Expected 'headers' to be an object of strings";
+    }
+    if (Object.values(body.headers).some((v) => typeof v !== "string")) {
+      return "Expected 'headers' to be an object of strings";
+    }
+  }
+
+  if (body.assets !== undefined) {
+    if (!Array.isArray(body.assets)) return "Expected 'assets' to be an array";
+    for (const [i, a] of body.assets.entries()) {
+      if (typeof a?.url !== "string" || typeof a?.content !== "string") {
+        return `Expected assets[${i}] to be { url: string, content: string }`;
+      }
+      if (a.kind !== undefined && a.kind !== "script" && a.kind !== "stylesheet") {
+        return `Expected assets[${i}].kind to be "script" or "stylesheet"`;
+      }
+      // Same rule as fetched assets: only the page's own origin (see _assets.ts)
+      let assetUrl: URL;
+      try { assetUrl = new URL(a.url, pageUrl); }
+      catch { return `Invalid assets[${i}].url: ${a.url}`; }
+      if (assetUrl.origin !== pageUrl.origin) {
+        return `Expected assets[${i}].url to be on the page's origin (${pageUrl.origin})`;
+      }
+    }
+  }
+
+  if (body.dns !== undefined) {
+    const dns = body.dns as Partial<DnsRecords> | null;
+    const isStrings = (v: unknown) => Array.isArray(v) && v.every((s) => typeof s === "string");
+    if (typeof dns !== "object" || dns === null || Array.isArray(dns)) return "Expected 'dns' to be an object";
+    if (typeof dns.hostname !== "string") return "Expected dns.hostname (string)";
+    if (!isStrings(dns.cnames)) return "Expected dns.cnames to be an array of strings";
+    if (!isStrings(dns.addresses)) return "Expected dns.addresses to be an array of strings";
+    if (!Array.isArray(dns.txt)) return "Expected dns.txt to be an array";
+    for (const [i, t] of dns.txt.entries()) {
+      if (typeof t?.name !== "string" || typeof t?.value !== "string") {
+        return `Expected dns.txt[${i}] to be { name: string, value: string }`;
+      }
+    }
+  }
+  return null;
+}
@@ -1,205 +1,152 @@
-import { detectUrl, DetectionResult } from "../_detector";
+import {
+  BatchInput, BatchInputError, BatchRow, detectRow, emptyBucketCounts, MAX_BATCH, parseBatchInput, RowDetectContext,
+  resultCsvHeaders, resultCsvRow, resultsToCsv,
+} from "../_batch";
+import { checkRateLimit } from "../_auth";
+import { cacheTtlSeconds, getResultCache } from "../_cache";
+import type { Bucket } from "../_detector";
+import { getResolver } from "../_dns";
+import type { Env } from "../_env";
+import { loadFingerprintPack } from "../_fingerprints";
+import { respectRobots } from "../_identity";
+import { DEFAULT_PROBE_BUDGET } from "../_probes";
+import { getRenderer } from "../_renderer";
+import { createScheduler } from "../_scheduler";
 
 const CORS = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
 export const onRequestOptions: PagesFunction = async () =>
   new Response(null, { headers: CORS });
 
-export const onRequestPost: PagesFunction = async (ctx) => {
-  const contentType = ctx.request.headers.get("content-type") ?? "";
-
-  // -------------------------------------------------------------------------
-  // Parse input: accept either a CSV file upload (multipart) or JSON body
-  // -------------------------------------------------------------------------
-  let rows: Record<string, string>[] = [];
-  let urlColumn = "";
-
-  if (contentType.includes("multipart/form-data")) {
-    const form = await ctx.request.formData();
-    const file = form.get("file");
-    const colOverride = (form.get("url_column") as string | null) ?? "";
-
-    if (!file || typeof file === "string") {
-      return Response.json({ error: "Expected a 'file' field in the form" }, { status: 400, headers: CORS });
-    }
-
-    const text = await (file as File).text();
-    const parsed = parseCSV(text);
-    if (!parsed.rows.length) {
-      return Response.json({ error: "CSV has no data rows" }, { status: 400, headers: CORS });
-    }
-
-    try {
-      urlColumn = findUrlColumn(parsed.headers, colOverride);
-    } catch (e: unknown) {
-      return Response.json({ error: (e as Error).message }, { status: 400, headers: CORS });
-    }
-    rows = parsed.rows;
-
-  } else {
-    // JSON body: { urls: string[] }
-    let body: { urls?: string[] };
-    try {
-      body = await ctx.request.json();
-    } catch {
-      return Response.json({ error: "Invalid JSON body" }, { status: 400, headers: CORS });
-    }
-    if (!Array.isArray(body.urls) || !body.urls.length) {
-      return Response.json({ error: "Expected { urls: string[] } in JSON body" }, { status: 400, headers: CORS });
-    }
-    rows = body.urls.map((u) => ({ url: u }));
-    urlColumn = "url";
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  let input: BatchInput;
+  try {
+    input = await parseBatchInput(ctx.request);
+  } catch (e: unknown) {
+    if (!(e instanceof BatchInputError)) throw e;
+    return Response.json({ error: e.message }, { status: e.status, headers: CORS });
   }
+  const { rows, urlColumn } = input;
 
-  // CF Workers have a CPU time limit — cap batch size to avoid timeouts.
-  // For larger batches the client should chunk requests.
-  const MAX_BATCH = 50;
   if (rows.length > MAX_BATCH) {
     return Response.json(
-      { error: `Batch too large. Max ${MAX_BATCH} rows per request. Split your CSV into chunks.` },
+      { error: `Batch too large. Max ${MAX_BATCH} rows per request. Use /api/jobs for larger lists.` },
       { status: 413, headers: CORS },
     );
   }
 
+  const limit = await checkRateLimit(ctx.request, ctx.env, rows.length, CORS);
+  if (!limit.ok) return limit.response;
+
+  const robots = respectRobots(ctx.env, input.robots);
+  const detectCtx: RowDetectContext = {
+    pack: await loadFingerprintPack(ctx.env),
+    cache: getResultCache(ctx.env),
+    ttlSeconds: cacheTtlSeconds(ctx.env),
+    pages: input.pages,
+    fresh: input.fresh,
+    robots,
+    scheduler: createScheduler(ctx.env, robots),
+    renderer: getRenderer(ctx.env, robots),
+    resolver: getResolver(ctx.env),
+    probes: input.probe ? DEFAULT_PROBE_BUDGET : null,
+  };
+
+  const stream = streamFormat(ctx.request);
+  if (stream) return streamResults(input, detectCtx, stream, limit.headers);
+
   // -------------------------------------------------------------------------
-  // Run detection concurrently (Workers don't have thread limits but do have
-  // CPU wall-clock limits, so we fan out with Promise.all)
+  // Run detection concurrently — rows fan out with Promise.all, and the
+  // scheduler bounds how many fetches are in flight overall and per host
   // -------------------------------------------------------------------------
-  const results: Array<DetectionResult & { originalRow: Record<string, string> }> = await Promise.all(
-    rows.map(async (row) => {
-      const url = (row[urlColumn] ?? "").trim();
-      if (!url) {
-        return {
-          url: "",
-          finalUrl: "",
-          bucket: "unknown" as const,
-          bucketConfidence: "none" as const,
-          platform: null,
-          platformScore: 0,
-          platformSignals: [],
-          allPlatformScores: {},
-          aiScore: 0,
-          aiSignals: [],
-          error: "empty_url",
-          originalRow: row,
-        };
-      }
-      const result = await detectUrl(url);
-      return { ...result, originalRow: row };
-    }),
-  );
+  const results: BatchRow[] = await Promise.all(rows.map((row) => detectRow(row, urlColumn, detectCtx)));
 
   // -------------------------------------------------------------------------
   // Return: if the request came from a CSV upload, respond with a CSV.
   // If it came from a JSON body, respond with JSON.
   // -------------------------------------------------------------------------
-  const acceptCsv = contentType.includes("multipart/form-data");
-
-  if (acceptCsv) {
-    // Build output CSV: original columns + result columns
-    const originalHeaders = Object.keys(rows[0] ?? {});
-    const resultHeaders = ["ai_bucket", "ai_bucket_confidence", "ai_platform", "ai_platform_score", "ai_score", "ai_error"];
-    const allHeaders = [...originalHeaders, ...resultHeaders.filter((h) => !originalHeaders.includes(h))];
-
-    const csvLines: string[] = [allHeaders.map(csvEscape).join(",")];
-    for (const r of results) {
-      const outRow: Record<string, string> = { ...r.originalRow };
-      outRow["ai_bucket"]             = r.bucket;
-      outRow["ai_bucket_confidence"]  = r.bucketConfidence;
-      outRow["ai_platform"]           = r.platform ?? "";
-      outRow["ai_platform_score"]     = r.platformScore.toFixed(1);
-      outRow["ai_score"]              = r.aiScore.toFixed(1);
-      outRow["ai_error"]              = r.error ?? "";
-      csvLines.push(allHeaders.map((h) => csvEscape(outRow[h] ?? "")).join(","));
-    }
-
-    return new Response(csvLines.join("\r\n"), {
+  if (input.format === "csv") {
+    return new Response(resultsToCsv(input.headers, results), {
       headers: {
-        ...CORS,
+        ...limit.headers,
         "Content-Type": "text/csv",
         "Content-Disposition": "attachment; filename=\"results.csv\"",
       },
     });
   }
 
-  return Response.json({ results }, { headers: CORS });
+  return Response.json({ results }, { headers: limit.headers });
 };
 
 // ---------------------------------------------------------------------------
-// CSV utilities
+// Streaming: ?stream=ndjson|sse (or the matching Accept header) emits each
+// row as soon as it finishes, in completion order, then a summary record:
+//
+//   {"type":"columns","columns":["url",…,"ai_bucket",…]}
+//   {"type":"result","index":3,"bucket":"…",…,"originalRow":{…},"csvRow":{…}}
+//   {"type":"summary","total":50,"counts":{…},"durationMs":8123}
+//
+// SSE uses the record type as the event name. Streams are always JSON, even
+// for CSV uploads — the client assembles the CSV from the server's column
+// list and each result's csvRow, so the columns are only defined here.
 // ---------------------------------------------------------------------------
 
-function parseCSV(text: string): { headers: string[]; rows: Record<string, string>[] } {
-  const lines = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n").trim().split("\n");
-  if (!lines.length) return { headers: [], rows: [] };
-
-  const headers = splitCSVRow(lines[0]);
-  const rows: Record<string, string>[] = [];
+type StreamFormat = "ndjson" | "sse";
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    const values = splitCSVRow(line);
-    const row: Record<string, string> = {};
-    headers.forEach((h, idx) => { row[h] = values[idx] ?? ""; });
-    rows.push(row);
-  }
+type StreamRecord =
+  | { type: "columns"; columns: string[] }
+  | ({ type: "result"; index: number; csvRow: Record<string, string> } & BatchRow)
+  | { type: "summary"; total: number; counts: Record<Bucket, number>; durationMs: number };
 
-  return { headers, rows };
+function streamFormat(request: Request): StreamFormat | null {
+  const param = new URL(request.url).searchParams.get("stream");
+  if (param === "ndjson" || param === "sse") return param;
+  const accept = request.headers.get("accept") ?? "";
+  if (accept.includes("text/event-stream")) return "sse";
+  if (accept.includes("application/x-ndjson")) return "ndjson";
+  return null;
 }
 
-function splitCSVRow(line: string): string[] {
-  const fields: string[] = [];
-  let current = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-    if (ch === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (ch === "," && !inQuotes) {
-      fields.push(current.trim());
-      current = "";
-    } else {
-      current += ch;
-    }
-  }
-  fields.push(current.trim());
-  return fields;
-}
-
-function csvEscape(val: string): string {
-  if (val.includes(",") || val.includes('"') || val.includes("\n")) {
-    return `"${val.replace(/"/g, '""')}"`;
-  }
-  return val;
-}
+function streamResults(
+  input: BatchInput,
+  detectCtx: RowDetectContext,
+  format: StreamFormat,
+  headers: Record<string, string>,
+): Response {
+  const encoder = new TextEncoder();
+  const encode = (record: StreamRecord) => encoder.encode(
+    format === "sse"
+      ? `event: ${record.type}\ndata: ${JSON.stringify(record)}\n\n`
+      : `${JSON.stringify(record)}\n`,
+  );
 
-const URL_COLUMN_CANDIDATES = [
-  "url", "urls", "website", "websites",
-  "domain", "domains", "link", "links",
-  "site", "sites", "href",
-];
-
-function findUrlColumn(headers: string[], override: string): string {
-  if (override) {
-    const found = headers.find((h) => h.toLowerCase() === override.toLowerCase());
-    if (found) return found;
-    throw new Error(`Column '${override}' not found. Available: ${headers.join(", ")}`);
-  }
-  const lower = headers.map((h) => h.toLowerCase());
-  for (const c of URL_COLUMN_CANDIDATES) {
-    const idx = lower.indexOf(c);
-    if (idx !== -1) return headers[idx];
-  }
-  throw new Error(`Could not auto-detect URL column. Available: ${headers.join(", ")}. Use the 'url_column' field to specify it.`);
+  const startedAt = Date.now();
+  const counts = emptyBucketCounts();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(encode({ type: "columns", columns: resultCsvHeaders(input.headers) }));
+      // detectRow turns a failed detection into an error row, so every row is
+      // reported and the summary is always written
+      await Promise.all(input.rows.map(async (row, index) => {
+        const result = await detectRow(row, input.urlColumn, detectCtx);
+        counts[result.bucket]++;
+        controller.enqueue(encode({ type: "result", index, ...result, csvRow: resultCsvRow(result) }));
+      }));
+      controller.enqueue(encode({ type: "summary", total: input.rows.length, counts, durationMs: Date.now() - startedAt }));
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": format === "sse" ? "text/event-stream" : "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
 }
@@ -1,30 +1,66 @@
+import { checkRateLimit } from "../_auth";
+import { cachedDetect, cacheTtlSeconds, cacheVariant, getResultCache, resultCacheKey } from "../_cache";
 import { detectUrl } from "../_detector";
+import { clampPages, detectSite } from "../_crawl";
+import { getResolver } from "../_dns";
+import type { Env } from "../_env";
+import { loadFingerprintPack } from "../_fingerprints";
+import { respectRobots } from "../_identity";
+import { DEFAULT_PROBE_BUDGET } from "../_probes";
+import { getRenderer } from "../_renderer";
+import { createScheduler } from "../_scheduler";
 
-export const onRequestGet: PagesFunction = async (ctx) => {
-  const url = new URL(ctx.request.url).searchParams.get("url");
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization",
+};
+
+export const onRequestGet: PagesFunction<Env> = async (ctx) => {
+  const params = new URL(ctx.request.url).searchParams;
+  const url = params.get("url");
+  // ?pages=N (N > 1) crawls up to N same-origin pages and aggregates their signals
+  const pages = clampPages(parseInt(params.get("pages") ?? "1", 10));
+  // ?fresh=1 bypasses the result cache
+  const fresh = params.get("fresh") === "1";
+  // ?robots=1 identifies as a crawler and skips URLs robots.txt disallows
+  const robots = respectRobots(ctx.env, params.get("robots") === "1");
+  // ?probe=1 requests platform-specific endpoints within a small budget
+  const probe = params.get("probe") === "1";
 
   if (!url) {
-    return Response.json({ error: "Missing ?url= parameter" }, { status: 400 });
+    return Response.json({ error: "Missing ?url= parameter" }, { status: 400, headers: CORS });
   }
 
+  const limit = await checkRateLimit(ctx.request, ctx.env, 1, CORS);
+  if (!limit.ok) return limit.response;
+
   try {
-    const result = await detectUrl(url);
-    return Response.json(result, {
-      headers: { "Access-Control-Allow-Origin": "*" },
-    });
+    const pack = await loadFingerprintPack(ctx.env);
+    const opts = {
+      pack,
+      scheduler: createScheduler(ctx.env, robots),
+      renderer: getRenderer(ctx.env, robots),
+      resolver: getResolver(ctx.env),
+      probes: probe ? DEFAULT_PROBE_BUDGET : null,
+    };
+    const result = await cachedDetect(
+      {
+        cache: getResultCache(ctx.env),
+        key: await resultCacheKey(url, pack.version, cacheVariant(pages, robots, { render: !!opts.renderer, probe })),
+        ttlSeconds: cacheTtlSeconds(ctx.env),
+        fresh,
+      },
+      () => pages > 1 ? detectSite(url, pages, opts) : detectUrl(url, opts),
+    );
+    return Response.json(result, { headers: limit.headers });
   } catch (err: unknown) {
     return Response.json(
       { error: err instanceof Error ? err.message : "Unknown error" },
-      { status: 500 },
+      { status: 500, headers: limit.headers },
     );
   }
 };
 
-export const onRequestOptions: PagesFunction = async () => {
-  return new Response(null, {
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, OPTIONS",
-    },
-  });
-};
+export const onRequestOptions: PagesFunction = async () =>
+  new Response(null, { headers: CORS });
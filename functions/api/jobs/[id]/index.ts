@@ -0,0 +1,13 @@
+import type { Env } from "../../../_env";
+import { getJobProgress, getJobStore } from "../../../_jobs";
+
+const CORS = { "Access-Control-Allow-Origin": "*" };
+
+export const onRequestGet: PagesFunction<Env, "id"> = async (ctx) => {
+  const store = getJobStore(ctx.env);
+  const job = await store.getJob(String(ctx.params.id));
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404, headers: CORS });
+  }
+  return Response.json(await getJobProgress(store, job), { headers: CORS });
+};
@@ -0,0 +1,60 @@
+import { csvEscape, resultCsvHeaders, resultCsvLine } from "../../../_batch";
+import type { Env } from "../../../_env";
+import { getJobProgress, getJobStore } from "../../../_jobs";
+
+const CORS = { "Access-Control-Allow-Origin": "*" };
+
+/**
+ * The enriched CSV/JSON /api/batch would have returned for the whole list.
+ * Defaults to the format the job was submitted in; ?format=csv|json overrides.
+ * Chunks are streamed one at a time so the largest jobs never sit in memory
+ * whole. A failed job has results too: its failed chunks' rows carry the error.
+ */
+export const onRequestGet: PagesFunction<Env, "id"> = async (ctx) => {
+  const store = getJobStore(ctx.env);
+  const job = await store.getJob(String(ctx.params.id));
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404, headers: CORS });
+  }
+
+  const progress = await getJobProgress(store, job);
+  if (progress.status !== "done" && progress.status !== "failed") {
+    return Response.json(
+      { error: `Job is ${progress.status} (${progress.completed} / ${progress.total} rows)` },
+      { status: 409, headers: CORS },
+    );
+  }
+
+  const format = new URL(ctx.request.url).searchParams.get("format") ?? job.format;
+  const csv = format === "csv";
+  const headers = resultCsvHeaders(job.headers);
+  const encoder = new TextEncoder();
+  let chunk = 0;
+  let rowsWritten = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(csv ? headers.map(csvEscape).join(",") : `{"results":[`));
+    },
+    async pull(controller) {
+      if (chunk >= job.chunkCount) {
+        if (!csv) controller.enqueue(encoder.encode("]}"));
+        controller.close();
+        return;
+      }
+      const results = (await store.getResults(job.id, chunk)) ?? [];
+      const text = csv
+        ? results.map((r) => `\r\n${resultCsvLine(headers, r)}`).join("")
+        : results.map((r, i) => (rowsWritten + i ? "," : "") + JSON.stringify(r)).join("");
+      rowsWritten += results.length;
+      chunk++;
+      controller.enqueue(encoder.encode(text));
+    },
+  });
+
+  return new Response(body, {
+    headers: csv
+      ? { ...CORS, "Content-Type": "text/csv", "Content-Disposition": `attachment; filename="results-${job.id}.csv"` }
+      : { ...CORS, "Content-Type": "application/json" },
+  });
+};
@@ -0,0 +1,52 @@
+import { checkRateLimit } from "../../_auth";
+import { BatchInput, BatchInputError, parseBatchInput } from "../../_batch";
+import type { Env } from "../../_env";
+import { createJob, getJobQueue, JobMessage, MAX_JOB_ROWS } from "../../_jobs";
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export const onRequestOptions: PagesFunction = async () =>
+  new Response(null, { headers: CORS });
+
+/** Same input as /api/batch (CSV upload or { urls }), any size up to MAX_JOB_ROWS. */
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  let input: BatchInput;
+  try {
+    input = await parseBatchInput(ctx.request);
+  } catch (e: unknown) {
+    if (!(e instanceof BatchInputError)) throw e;
+    return Response.json({ error: e.message }, { status: e.status, headers: CORS });
+  }
+
+  if (input.rows.length > MAX_JOB_ROWS) {
+    return Response.json(
+      { error: `Job too large. Max ${MAX_JOB_ROWS} rows per job.` },
+      { status: 413, headers: CORS },
+    );
+  }
+
+  const limit = await checkRateLimit(ctx.request, ctx.env, input.rows.length, CORS);
+  if (!limit.ok) return limit.response;
+
+  const job = await createJob(ctx.env, input);
+  const queue = getJobQueue(ctx.env);
+  const messages: JobMessage[] = Array.from({ length: job.chunkCount }, (_, chunk) => ({ jobId: job.id, chunk }));
+  await queue.send(messages);
+  // Keeps in-process work alive after the response; a no-op with a real queue
+  ctx.waitUntil(queue.idle());
+
+  return Response.json(
+    {
+      id: job.id,
+      status: "queued",
+      total: job.total,
+      statusUrl: `/api/jobs/${job.id}`,
+      resultsUrl: `/api/jobs/${job.id}/results`,
+    },
+    { status: 202, headers: limit.headers },
+  );
+};
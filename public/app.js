@@ -34,7 +34,10 @@ document.addEventListener("keydown", (e) => {
   if (e.key === "Escape" && !infoModal.classList.contains("hidden")) closeModal();
 });
 
-const BATCH_CHUNK_SIZE = 50;
+// Lists up to /api/batch's limit are run synchronously; anything larger becomes a job
+const BATCH_MAX_ROWS = 50;
+const JOB_STORAGE_KEY = "activeJob";
+const JOB_POLL_MS = 2000;
 
 // ---------------------------------------------------------------------------
 // Bucket display config
@@ -119,6 +122,14 @@ function renderSingleResult(container, result) {
   container.classList.remove("hidden", "loading");
   container.innerHTML = "";
 
+  if (result.blocked) {
+    container.innerHTML = `
+      <p style="color:var(--danger);font-size:.9rem">
+        Refused to fetch <code>${esc(result.blocked.url)}</code> (${esc(result.blocked.reason.replace(/_/g, " "))})
+      </p>`;
+    return;
+  }
+
   if (result.error && result.bucket === "unknown") {
     container.innerHTML = `
       <p style="color:var(--danger);font-size:.9rem">
@@ -133,9 +144,10 @@ function renderSingleResult(container, result) {
   // Confidence as a percentage string
   const confPct = { high: "90%+", medium: "~70%", low: "~50%", none: "—" }[conf] ?? "—";
 
-  // Platform pill — shown prominently when a platform is detected
+  // Platform pill — shown prominently when a platform is detected; hover for vendor and kind
+  const meta = result.platformMeta;
   const platformPill = (result.bucket === "platform-assisted" && result.platform)
-    ? `<span class="platform-pill">${esc(result.platform)}</span>`
+    ? `<span class="platform-pill"${meta ? ` title="${esc(`${meta.vendor} · ${meta.kind}`)}"` : ""}>${esc(result.platform)}</span>`
     : "";
 
   const score = result.bucket === "platform-assisted"
@@ -155,21 +167,101 @@ function renderSingleResult(container, result) {
       ${scorePill}
     </div>
     <p class="result-sub">${cfg.description}</p>
+    ${renderVerdicts(result.verdicts)}
+    ${renderStack(result.stack)}
+    ${renderRender(result.render)}
     <p class="result-sub">${esc(result.finalUrl || result.url)}</p>
+    ${result.fromCache ? `<p class="result-sub">Cached result from ${esc(new Date(result.cachedAt).toLocaleString())}</p>` : ""}
+    ${renderExplanation(result.explanation)}
     ${renderSignalSections(result)}
   `;
 
-  // Wire up signal toggles
+  // Wire up signal and breakdown toggles
   container.querySelectorAll(".signals-toggle").forEach((btn) => {
     const list = btn.nextElementSibling;
+    const showLabel = btn.textContent.trim();
     btn.addEventListener("click", () => {
       const open = list.classList.toggle("open");
-      const count = btn.dataset.count;
-      btn.textContent = open ? `Hide signals ↑` : `Show ${count} signals ↓`;
+      btn.textContent = open ? btn.dataset.hide : showLabel;
     });
   });
 }
 
+// Every label that was detected, so a builder site with AI-written copy shows both
+function renderVerdicts(verdicts) {
+  if (!verdicts) return "";
+  const chips = [
+    verdicts.platform.detected && ["Builder", verdicts.platform.name, verdicts.platform.confidence],
+    verdicts.aiCode.detected && ["AI code", null, verdicts.aiCode.confidence],
+    verdicts.aiCopy.detected && ["AI copy", null, verdicts.aiCopy.confidence],
+    // Cached results from before hosting verdicts existed have none
+    verdicts.hosting?.detected && ["Hosted on", verdicts.hosting.name, verdicts.hosting.confidence],
+  ].filter(Boolean);
+  if (!chips.length) return "";
+  return `
+    <p class="result-sub verdicts">
+      ${chips.map(([label, name, conf]) =>
+        `<span class="badge badge-${esc(conf)}">${esc(label)}${name ? `: ${esc(name)}` : ""} · ${esc(conf)}</span>`).join(" ")}
+    </p>`;
+}
+
+const stackLabel = (c) => (c.version ? `${c.name} ${c.version}` : c.name);
+const renderLabel = (r) => (r.error ? `${r.renderer}: ${r.error}` : r.renderer);
+
+// "Next.js 14.2.15 on Vercel · Tailwind CSS, shadcn/ui · Plausible"
+function renderStack(stack) {
+  if (!stack) return "";
+  const built = [stack.framework ?? stack.buildTool].filter(Boolean).map(stackLabel).join("");
+  const parts = [
+    [built, stack.host && `${built ? "on " : "Hosted on "}${stack.host.name}`].filter(Boolean).join(" "),
+    stack.uiLibraries.map(stackLabel).join(", "),
+    stack.analytics.map(stackLabel).join(", "),
+  ].filter(Boolean);
+  return parts.length ? `<p class="result-sub">Stack: ${esc(parts.join(" · "))}</p>` : "";
+}
+
+// Only set for SPA shells; cached results from before rendering existed have none
+function renderRender(render) {
+  if (!render) return "";
+  return render.error
+    ? `<p class="result-sub">Empty SPA shell — rendering failed (${esc(renderLabel(render))})</p>`
+    : `<p class="result-sub">Empty SPA shell — rendered with ${esc(render.renderer)}</p>`;
+}
+
+// Cached results from before explanations existed have none
+function renderExplanation(explanation) {
+  if (!explanation) return "";
+  const breakdowns = [...explanation.platforms, explanation.ai];
+  return `
+    <div class="signals-section">
+      <div class="signals-section-label">Why this bucket</div>
+      <p class="explanation-rationale">${esc(explanation.rationale)}</p>
+      <button class="signals-toggle" data-hide="Hide score breakdown ↑">Show score breakdown ↓</button>
+      <div class="signals-list">${breakdowns.map(renderBreakdown).join("")}</div>
+    </div>
+  `;
+}
+
+function renderBreakdown(b) {
+  const name = b.name === "ai" ? "AI heuristics" : b.name;
+  const margin = b.margin >= 0 ? `+${b.margin.toFixed(0)} over` : `${(-b.margin).toFixed(0)} short of`;
+  const rows = b.categories.map((c) => `
+    <div class="breakdown-row">
+      <span class="signal-desc">${esc(c.category)} <span class="muted">× ${c.signals}</span></span>
+      <span class="signal-pts">${c.capped < c.raw ? `${c.raw} → capped ${c.capped}` : `+${c.capped}`} pts</span>
+    </div>
+  `).join("");
+  return `
+    <div class="breakdown">
+      <div class="breakdown-head">
+        <strong>${esc(name)}</strong>
+        <span class="signal-pts">${b.score.toFixed(0)} pts · ${margin} threshold ${b.threshold}</span>
+      </div>
+      ${rows || `<div class="breakdown-row"><span class="muted">No signals</span></div>`}
+    </div>
+  `;
+}
+
 function renderSignalSections(result) {
   const parts = [];
 
@@ -177,7 +269,7 @@ function renderSignalSections(result) {
     parts.push(`
       <div class="signals-section">
         <div class="signals-section-label">Platform signals</div>
-        <button class="signals-toggle" data-count="${result.platformSignals.length}">
+        <button class="signals-toggle" data-hide="Hide signals ↑">
           Show ${result.platformSignals.length} signals ↓
         </button>
         <div class="signals-list">${renderSignals(result.platformSignals)}</div>
@@ -189,7 +281,7 @@ function renderSignalSections(result) {
     parts.push(`
       <div class="signals-section">
         <div class="signals-section-label">AI heuristic signals</div>
-        <button class="signals-toggle" data-count="${result.aiSignals.length}">
+        <button class="signals-toggle" data-hide="Hide signals ↑">
           Show ${result.aiSignals.length} signals ↓
         </button>
         <div class="signals-list">${renderSignals(result.aiSignals)}</div>
@@ -211,6 +303,8 @@ function renderSignals(signals) {
       <span class="signal-desc">${esc(s.description)}</span>
       <span class="signal-pts">+${pts} pts</span>
       ${s.matchedValue ? `<span class="signal-match">${esc(s.matchedValue)}</span>` : ""}
+      ${s.source ? `<span class="signal-source">from ${s.via === "source-map" ? "source map " : ""}${esc(s.source)}</span>` : ""}
+      ${s.dom === "rendered" ? `<span class="signal-source">found in the rendered DOM</span>` : ""}
     </div>
   `}).join("");
 }
@@ -237,6 +331,8 @@ const fileNameEl    = document.getElementById("file-name");
 const fileRowsEl    = document.getElementById("file-rows");
 const btnClearFile  = document.getElementById("btn-clear-file");
 const urlColInput   = document.getElementById("url-col-input");
+const robotsInput   = document.getElementById("robots-input");
+const probeInput    = document.getElementById("probe-input");
 const btnBatch      = document.getElementById("btn-batch");
 const batchProgress = document.getElementById("batch-progress");
 const progressBar   = document.getElementById("progress-bar");
@@ -306,65 +402,144 @@ btnBatch.addEventListener("click", async () => {
     return;
   }
 
-  const allRows = csvParsed.rows;
-  const chunks = chunkArray(allRows, BATCH_CHUNK_SIZE);
-  const allResults = [];
-  let completed = 0;
+  const form = new FormData();
+  form.append("file", new Blob([rowsToCSV(csvParsed.headers, csvParsed.rows)], { type: "text/csv" }), "batch.csv");
+  if (urlColInput.value.trim()) form.append("url_column", urlColInput.value.trim());
+  if (robotsInput.checked) form.append("robots", "1");
+  if (probeInput.checked) form.append("probe", "1");
 
   try {
-    for (const chunk of chunks) {
-      const chunkCsv = rowsToCSV(csvParsed.headers, chunk);
-      const form = new FormData();
-      form.append("file", new Blob([chunkCsv], { type: "text/csv" }), "batch.csv");
-      if (urlColInput.value.trim()) form.append("url_column", urlColInput.value.trim());
-
-      const res = await fetch("/api/batch", { method: "POST", body: form });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
-        throw new Error(err.error || `HTTP ${res.status}`);
-      }
-
-      const csvText = await res.text();
-      const parsed = parseCSV(csvText);
-      allResults.push(...parsed.rows);
-
-      completed += chunk.length;
-      const pct = Math.round((completed / allRows.length) * 100);
-      progressBar.style.width = `${pct}%`;
-      progressLabel.textContent = `${completed} / ${allRows.length} rows processed…`;
-    }
+    // Small lists are answered in one request; larger ones run as a background job
+    if (csvParsed.rows.length <= BATCH_MAX_ROWS) {
+      await streamBatch(form, csvParsed.headers, csvParsed.rows.length);
+    } else {
+      const res = await fetch("/api/jobs", { method: "POST", body: form });
+      if (!res.ok) throw new Error(await errorMessage(res));
+      const job = await res.json();
 
-    progressBar.style.width = "100%";
-    progressLabel.textContent = "Done!";
-    renderBatchResults(allResults, csvParsed.headers);
+      // Remembered so a reload picks the job back up instead of losing it
+      localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify({ id: job.id, headers: csvParsed.headers }));
+      await followJob(job.id, csvParsed.headers);
+    }
   } catch (err) {
     showBatchError(err.message);
   } finally {
-    btnBatch.disabled = false;
+    btnBatch.disabled = !csvParsed;
   }
 });
 
+// Rows arrive in completion order as NDJSON; each is placed at its input index
+async function streamBatch(form, originalHeaders, total) {
+  const res = await fetch("/api/batch?stream=ndjson", { method: "POST", body: form });
+  if (!res.ok) throw new Error(await errorMessage(res));
+
+  const rows = new Array(total);
+  // The server sends its CSV columns first, then each result's row in them
+  let columns = originalHeaders;
+  let completed = 0;
+  let buffered = "";
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop();
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const record = JSON.parse(line);
+      if (record.type === "columns") columns = record.columns;
+      if (record.type !== "result") continue;
+      rows[record.index] = record.csvRow;
+      completed++;
+    }
+    const pct = Math.round((completed / total) * 100);
+    progressBar.style.width = `${pct}%`;
+    progressLabel.textContent = `${completed} / ${total} rows processed…`;
+    renderBatchResults(rows.filter(Boolean), originalHeaders, columns, false);
+  }
+
+  progressBar.style.width = "100%";
+  progressLabel.textContent = "Done!";
+  renderBatchResults(rows.filter(Boolean), originalHeaders, columns);
+}
+
+async function followJob(id, originalHeaders) {
+  let job;
+  for (;;) {
+    const res = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+    if (res.status === 404) {
+      localStorage.removeItem(JOB_STORAGE_KEY);
+      throw new Error("Job not found — it may have expired.");
+    }
+    if (!res.ok) throw new Error(await errorMessage(res));
+    job = await res.json();
+
+    const pct = job.total ? Math.round((job.completed / job.total) * 100) : 0;
+    progressBar.style.width = `${pct}%`;
+    progressLabel.textContent = `${job.completed} / ${job.total} rows processed…`;
+
+    // A failed job still has results; its failed rows carry the error
+    if (job.status === "done" || job.status === "failed") break;
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+  }
+
+  const res = await fetch(`/api/jobs/${encodeURIComponent(id)}/results?format=csv`);
+  if (!res.ok) throw new Error(await errorMessage(res));
+  const parsed = parseCSV(await res.text());
+  localStorage.removeItem(JOB_STORAGE_KEY);
+
+  progressBar.style.width = "100%";
+  progressLabel.textContent = job.failed ? `Done — ${job.failed} rows could not be processed` : "Done!";
+  renderBatchResults(parsed.rows, originalHeaders, parsed.headers);
+}
+
+async function resumeJob() {
+  let saved;
+  try { saved = JSON.parse(localStorage.getItem(JOB_STORAGE_KEY) ?? "null"); }
+  catch { saved = null; }
+  if (!saved?.id) return;
+
+  document.querySelector('.tab[data-tab="batch"]')?.click();
+  btnBatch.disabled = true;
+  batchProgress.classList.remove("hidden");
+  progressLabel.textContent = "Resuming job…";
+  try {
+    await followJob(saved.id, saved.headers ?? []);
+  } catch (err) {
+    showBatchError(err.message);
+  } finally {
+    btnBatch.disabled = !csvParsed;
+  }
+}
+
+resumeJob();
+
+async function errorMessage(res) {
+  const err = await res.json().catch(() => ({}));
+  return err.error || `HTTP ${res.status}`;
+}
+
 function showBatchError(msg) {
   batchProgress.classList.add("hidden");
   batchResult.classList.remove("hidden");
   batchResult.innerHTML = `<p style="color:var(--danger);font-size:.9rem">${esc(msg)}</p>`;
 }
 
-function renderBatchResults(rows, originalHeaders) {
+// `columns` are the server's result CSV columns. `done` is false while rows are
+// still streaming in — the download link waits for the full set
+function renderBatchResults(rows, originalHeaders, columns, done = true) {
   batchResult.classList.remove("hidden");
 
   // Tally buckets
   const tally = { "platform-assisted": 0, "ai-assisted": 0, "no-ai-signals": 0, "unknown": 0 };
   for (const r of rows) tally[r.ai_bucket] = (tally[r.ai_bucket] ?? 0) + 1;
 
-  const allHeaders = [
-    ...originalHeaders,
-    ...["ai_bucket","ai_bucket_confidence","ai_platform","ai_platform_score","ai_score","ai_error"]
-      .filter((h) => !originalHeaders.includes(h)),
-  ];
-  const csvContent = rowsToCSV(allHeaders, rows);
-  const blob = new Blob([csvContent], { type: "text/csv" });
-  const downloadUrl = URL.createObjectURL(blob);
+  const downloadUrl = done
+    ? URL.createObjectURL(new Blob([rowsToCSV(columns, rows)], { type: "text/csv" }))
+    : null;
   const urlCol = autoDetectUrlColumn(originalHeaders) || originalHeaders[0];
 
   batchResult.innerHTML = `
@@ -375,7 +550,7 @@ function renderBatchResults(rows, originalHeaders) {
       <span style="color:var(--muted)"><strong>${tally["no-ai-signals"]}</strong> no signals</span>
       ${tally["unknown"] ? `<span style="color:var(--danger)"><strong>${tally["unknown"]}</strong> unknown</span>` : ""}
     </div>
-    <a class="download-btn" href="${downloadUrl}" download="results.csv">⬇ Download results.csv</a>
+    ${downloadUrl ? `<a class="download-btn" href="${downloadUrl}" download="results.csv">⬇ Download results.csv</a>` : ""}
     <div class="results-table-wrap">
       <table>
         <thead>
@@ -385,6 +560,7 @@ function renderBatchResults(rows, originalHeaders) {
             <th>Confidence</th>
             <th>Score</th>
             <th>Platform</th>
+            <th>AI code / copy</th>
           </tr>
         </thead>
         <tbody>
@@ -403,6 +579,7 @@ function renderBatchResults(rows, originalHeaders) {
                 </td>
                 <td style="font-family:var(--mono);font-size:.75rem">${esc(String(score))}</td>
                 <td>${r.ai_platform || `<span style="color:var(--muted)">—</span>`}</td>
+                <td>${aiVerdictCell(r)}</td>
               </tr>
             `;
           }).join("")}
@@ -412,6 +589,13 @@ function renderBatchResults(rows, originalHeaders) {
   `;
 }
 
+function aiVerdictCell(r) {
+  const parts = [];
+  if (r.ai_code === "true") parts.push(`<span class="badge badge-${esc(r.ai_code_confidence)}">code</span>`);
+  if (r.ai_copy === "true") parts.push(`<span class="badge badge-${esc(r.ai_copy_confidence)}">copy</span>`);
+  return parts.join(" ") || `<span style="color:var(--muted)">—</span>`;
+}
+
 // ---------------------------------------------------------------------------
 // CSV parsing
 // ---------------------------------------------------------------------------
@@ -476,12 +660,6 @@ function autoDetectUrlColumn(headers) {
 // Utilities
 // ---------------------------------------------------------------------------
 
-function chunkArray(arr, size) {
-  const chunks = [];
-  for (let i = 0; i < arr.length; i += size) chunks.push(arr.slice(i, i + size));
-  return chunks;
-}
-
 function esc(str) {
   return String(str ?? "")
     .replace(/&/g, "&amp;")
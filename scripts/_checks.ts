@@ -0,0 +1,71 @@
+/**
+ * Helpers shared by the unit checks under checks/ (see checks.ts).
+ */
+
+import type { Env } from "../functions/_env";
+
+export interface Check {
+  name: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * Call a Pages Function the way the runtime would. Work handed to waitUntil
+ * (in-process jobs) is awaited before returning, so it has finished too.
+ */
+export async function callFunction<P extends string = never>(
+  fn: PagesFunction<Env, P>,
+  request: Request,
+  env: Env = {},
+  params: Partial<Record<P, string>> = {},
+): Promise<Response> {
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    request,
+    env,
+    params,
+    data: {},
+    functionPath: new URL(request.url).pathname,
+    waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+    passThroughOnException: () => {},
+    next: async () => new Response(null, { status: 404 }),
+  } as unknown as EventContext<Env, P, Record<string, unknown>>;
+  const response = await fn(ctx);
+  await Promise.all(pending);
+  return response;
+}
+
+/** Run `body` with fetch replaced by `stub`, restoring the real one afterwards. */
+export async function withFetch<T>(stub: (request: Request) => Response | Promise<Response>, body: () => Promise<T>): Promise<T> {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input instanceof Request ? input : String(input), init);
+    const response = await stub(request);
+    // Responses built by hand have no URL; the scheduler reads it as the final URL
+    if (!response.url) Object.defineProperty(response, "url", { value: request.url });
+    return response;
+  }) as typeof fetch;
+  try {
+    return await body();
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+/** Run `body` with console.warn silenced, for checks that provoke the failures it reports. */
+export async function quietly<T>(body: () => Promise<T>): Promise<T> {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return await body();
+  } finally {
+    console.warn = warn;
+  }
+}
+
+/** A plain hand-written page: analysed like any other, no platform or AI evidence in it. */
+export function plainPage(title: string): Response {
+  return new Response(`<!DOCTYPE html><html><head><title>${title}</title></head><body><h1>${title}</h1><p>Opening hours and directions.</p></body></html>`, {
+    headers: { "content-type": "text/html" },
+  });
+}
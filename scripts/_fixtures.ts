@@ -0,0 +1,211 @@
+/**
+ * Fixture corpus shared by the regression runner and the model trainer.
+ * See regress.ts for the fixture layout.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { detectSite } from "../functions/_crawl";
+import { detectUrl, DetectionResult, normalizeUrl } from "../functions/_detector";
+import { DohResolver } from "../functions/_dns";
+import { BUNDLED_PACK, FingerprintPack, validatePack } from "../functions/_fingerprints";
+import { crawlerIdentity } from "../functions/_identity";
+import { DEFAULT_PROBE_BUDGET } from "../functions/_probes";
+import { StaticRenderer } from "../functions/_renderer";
+import { FetchScheduler } from "../functions/_scheduler";
+
+export const FIXTURES_DIR = resolve(__dirname, "..", "fixtures");
+// Answered by stubDoh() rather than the network
+const FIXTURE_DOH_RESOLVER = "https://doh.fixtures.test/dns-query";
+
+export interface FixtureSpec {
+  url: string;
+  finalUrl?: string;
+  headers?: Record<string, string>;
+  assets?: Record<string, string>;
+  // Further redirects, "<absolute url>": "<location>", each served as a 301
+  redirects?: Record<string, string>;
+  // Status codes, "<absolute url>": status, served with the asset's body when there is one
+  statuses?: Record<string, number>;
+  // Every request whose User-Agent lacks this token is answered 403
+  requireUserAgent?: string;
+  // Runs in compliant mode: the crawler identity, and robots.txt (served from `assets`) obeyed
+  robots?: boolean;
+  // Crawls up to this many pages with detectSite(); extra pages are served from `assets`
+  pages?: number;
+  // File with the landing page's DOM after its scripts ran, served by a StaticRenderer
+  rendered?: string;
+  // Zone data answered by the DoH stub; DNS lookups are off for fixtures without it
+  dns?: Record<string, FixtureDnsName>;
+  // Runs in probe mode; probe paths are served from `assets` like any other URL
+  probe?: boolean;
+  // Hash rules added to the bundled pack, keyed by platform or template name — the
+  // bundled rules are hashes of real files, which a fixture's own files won't match
+  hashes?: FixtureHashes;
+}
+
+export interface FixtureHashes {
+  platforms?: Record<string, unknown[]>;
+  templates?: Record<string, unknown[]>;
+}
+
+export interface FixtureDnsName {
+  CNAME?: string;
+  A?: string[];
+  TXT?: string[];
+}
+
+export interface Expected {
+  bucket: string;
+  platform: string | null;
+  platformSignals: string[];
+  aiSignals: string[];
+  // "<part>: <name> [version]" per detected stack component (omitted when nothing was detected)
+  stack?: string[];
+  // Renderer name, plus ": <error>" when rendering failed (omitted when the page wasn't rendered)
+  render?: string;
+  error?: string;
+  // "<url>: <bucket or error>" per crawled page, landing page first (crawl fixtures only)
+  pages?: string[];
+}
+
+export interface Fixture {
+  name: string;
+  dir: string;
+  spec: FixtureSpec;
+  html: string;
+  expected: Expected | null;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export function loadFixtures(only: string[]): Fixture[] {
+  return readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && (!only.length || only.includes(d.name)))
+    .map((d) => {
+      const dir = join(FIXTURES_DIR, d.name);
+      const expectedPath = join(dir, "expected.json");
+      return {
+        name: d.name,
+        dir,
+        spec: JSON.parse(readFileSync(join(dir, "fixture.json"), "utf8")) as FixtureSpec,
+        html: readFileSync(join(dir, "page.html"), "utf8"),
+        expected: existsSync(expectedPath) ? JSON.parse(readFileSync(expectedPath, "utf8")) as Expected : null,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ---------------------------------------------------------------------------
+// Stubbed fetch — serves only what the fixture captured, everything else 404s
+// ---------------------------------------------------------------------------
+
+export function stubFetch(fixture: Fixture): typeof fetch {
+  const requestUrl = new URL(normalizeUrl(fixture.spec.url)).href;
+  const finalUrl = fixture.spec.finalUrl ? new URL(fixture.spec.finalUrl).href : requestUrl;
+  const assets = new Map(
+    Object.entries(fixture.spec.assets ?? {}).map(([u, file]) => [new URL(u).href, join(fixture.dir, file)]),
+  );
+  const redirects = new Map(Object.entries(fixture.spec.redirects ?? {}).map(([u, location]) => [new URL(u).href, location]));
+  const statuses = new Map(Object.entries(fixture.spec.statuses ?? {}).map(([u, status]) => [new URL(u).href, status]));
+  const requiredAgent = fixture.spec.requireUserAgent;
+
+  const respond = (body: string | Buffer, url: string, init: ResponseInit = {}): Response => {
+    const resp = new Response(body, init);
+    Object.defineProperty(resp, "url", { value: url });
+    return resp;
+  };
+
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input instanceof Request ? input : String(input), init);
+    const url = new URL(request.url).href;
+    if (url.startsWith(`${FIXTURE_DOH_RESOLVER}?`)) return Response.json(stubDoh(fixture.spec.dns ?? {}, new URL(url)));
+    if (requiredAgent && !request.headers.get("user-agent")?.includes(requiredAgent)) return respond("Forbidden", url, { status: 403 });
+    if (url === finalUrl) return respond(fixture.html, finalUrl, { headers: fixture.spec.headers ?? {} });
+    if (url === requestUrl) return respond("", url, { status: 301, headers: { location: finalUrl } });
+    const location = redirects.get(url);
+    if (location) return respond("", url, { status: 301, headers: { location } });
+    const assetFile = assets.get(url);
+    const status = statuses.get(url) ?? (assetFile ? 200 : 404);
+    // Read as bytes, so favicons and images hash as they were captured
+    if (assetFile) return respond(readFileSync(assetFile), url, { status, headers: { "content-type": contentTypeOf(assetFile) } });
+    return respond("", url, { status });
+  }) as typeof fetch;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "text/javascript", ".css": "text/css", ".json": "application/json", ".map": "application/json", ".html": "text/html",
+  ".png": "image/png", ".ico": "image/x-icon", ".svg": "image/svg+xml",
+};
+
+function contentTypeOf(file: string): string {
+  return CONTENT_TYPES[file.slice(file.lastIndexOf("."))] ?? "text/plain";
+}
+
+// ---------------------------------------------------------------------------
+// DoH stub — answers A and TXT queries from the fixture's zone data the way a
+// JSON DoH resolver does: CNAMEs followed, names without records NXDOMAIN
+// ---------------------------------------------------------------------------
+
+const RR_TYPES = { A: 1, CNAME: 5, TXT: 16 };
+
+function stubDoh(zone: Record<string, FixtureDnsName>, query: URL): { Status: number; Answer: Array<{ name: string; type: number; TTL: number; data: string }> } {
+  const answers: Array<{ name: string; type: number; TTL: number; data: string }> = [];
+  const rr = (name: string, type: keyof typeof RR_TYPES, data: string) => ({ name: `${name}.`, type: RR_TYPES[type], TTL: 300, data });
+
+  let name = (query.searchParams.get("name") ?? "").replace(/\.$/, "").toLowerCase();
+  if (!zone[name]) return { Status: 3, Answer: [] };
+  if (query.searchParams.get("type") === "TXT") {
+    for (const value of zone[name].TXT ?? []) answers.push(rr(name, "TXT", `"${value}"`));
+    return { Status: 0, Answer: answers };
+  }
+  for (let hops = 0; zone[name]?.CNAME && hops < 8; hops++) {
+    const target = zone[name].CNAME as string;
+    answers.push(rr(name, "CNAME", `${target}.`));
+    name = target;
+  }
+  for (const addr of zone[name]?.A ?? []) answers.push(rr(name, "A", addr));
+  return { Status: 0, Answer: answers };
+}
+
+/** Renders the fixture's captured DOM, or null when the fixture has none. */
+function stubRenderer(fixture: Fixture): StaticRenderer | null {
+  if (!fixture.spec.rendered) return null;
+  const finalUrl = fixture.spec.finalUrl ?? normalizeUrl(fixture.spec.url);
+  return new StaticRenderer({ [finalUrl]: readFileSync(join(fixture.dir, fixture.spec.rendered), "utf8") });
+}
+
+/** The bundled pack plus the fixture's hash rules, validated like a published pack. */
+function fixturePack(fixture: Fixture): FingerprintPack | undefined {
+  const extra = fixture.spec.hashes;
+  if (!extra) return undefined;
+  const platforms = Object.fromEntries(Object.entries(BUNDLED_PACK.platforms).map(([name, fp]) => [
+    name,
+    extra.platforms?.[name] ? { ...fp, hashes: [...(fp.hashes ?? []), ...extra.platforms[name]] } : fp,
+  ]));
+  const templates: Record<string, { hashes: unknown[] }> = { ...BUNDLED_PACK.templates };
+  for (const [name, hashes] of Object.entries(extra.templates ?? {})) {
+    templates[name] = { hashes: [...(templates[name]?.hashes ?? []), ...hashes] };
+  }
+  return validatePack({ ...BUNDLED_PACK, platforms, templates });
+}
+
+/** Run detectUrl(), or detectSite() for a crawl fixture, with fetch stubbed for the duration. */
+export async function detectFixture(fixture: Fixture): Promise<DetectionResult> {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = stubFetch(fixture);
+  try {
+    const opts = {
+      pack: fixturePack(fixture),
+      renderer: stubRenderer(fixture),
+      resolver: fixture.spec.dns ? new DohResolver(FIXTURE_DOH_RESOLVER) : null,
+      probes: fixture.spec.probe ? DEFAULT_PROBE_BUDGET : null,
+      scheduler: fixture.spec.robots ? new FetchScheduler({ identity: crawlerIdentity({}), respectRobots: true }) : undefined,
+    };
+    return await (fixture.spec.pages ? detectSite(fixture.spec.url, fixture.spec.pages, opts) : detectUrl(fixture.spec.url, opts));
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
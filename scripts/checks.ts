@@ -0,0 +1,49 @@
+/**
+ * Unit checks — the parts of the service that golden fixtures can't reach:
+ * job plumbing, rate limits, the fetch scheduler and the like. Each module
+ * under checks/ exports its checks; a check passes when it resolves and
+ * fails when it throws (node:assert).
+ *
+ *   npm test                        — run every check, then the golden fixtures (regress.ts)
+ *   tsx scripts/checks.ts <text>…   — only the checks whose name contains one of the texts
+ */
+
+import type { Check } from "./_checks";
+import { checks as analyzeChecks } from "./checks/analyze";
+import { checks as authChecks } from "./checks/auth";
+import { checks as batchChecks } from "./checks/batch";
+import { checks as jobChecks } from "./checks/jobs";
+import { checks as schedulerChecks } from "./checks/scheduler";
+import { checks as urlPolicyChecks } from "./checks/urlpolicy";
+
+const ALL_CHECKS: Check[] = [
+  ...analyzeChecks,
+  ...authChecks,
+  ...batchChecks,
+  ...jobChecks,
+  ...schedulerChecks,
+  ...urlPolicyChecks,
+];
+
+async function main(): Promise<number> {
+  const filters = process.argv.slice(2);
+  const checks = ALL_CHECKS.filter((c) => !filters.length || filters.some((f) => c.name.includes(f)));
+  let failures = 0;
+  for (const check of checks) {
+    try {
+      await check.run();
+      console.log(`ok    ${check.name}`);
+    } catch (err: unknown) {
+      failures++;
+      console.log(`FAIL  ${check.name}`);
+      console.log(`    ${(err instanceof Error ? err.message : String(err)).replace(/\n/g, "\n    ")}`);
+    }
+  }
+  console.log(`\n${checks.length - failures}/${checks.length} checks pass`);
+  return failures ? 1 : 0;
+}
+
+main().then((code) => process.exit(code), (err) => {
+  console.error(err);
+  process.exit(1);
+});
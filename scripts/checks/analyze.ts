@@ -0,0 +1,52 @@
+/**
+ * /api/analyze (functions/api/analyze.ts): snapshots are validated before
+ * they're analysed, the caller-resolved dns records included.
+ */
+
+import assert from "node:assert/strict";
+import type { Env } from "../../functions/_env";
+import { onRequestPost as analyze } from "../../functions/api/analyze";
+import { callFunction, Check } from "../_checks";
+
+const ENV: Env = { DOH_RESOLVER: "off" };
+
+const PAGE = { url: "https://studio.example.com/", html: "<html><body><h1>Studio</h1></body></html>" };
+
+function post(body: object): Promise<Response> {
+  return callFunction(analyze, new Request("https://detector.test/api/analyze", {
+    method: "POST",
+    headers: { "content-type": "application/json", "cf-connecting-ip": `192.0.2.${Math.floor(Math.random() * 250)}` },
+    body: JSON.stringify(body),
+  }), ENV);
+}
+
+export const checks: Check[] = [
+  {
+    name: "analyze: malformed dns records are a 400, not a failed analysis",
+    run: async () => {
+      const cases: Array<[dns: unknown, error: string]> = [
+        [{}, "Expected dns.hostname (string)"],
+        ["studio.example.com", "Expected 'dns' to be an object"],
+        [{ hostname: "studio.example.com", cnames: "proxy-ssl.webflow.com", addresses: [], txt: [] }, "Expected dns.cnames to be an array of strings"],
+        [{ hostname: "studio.example.com", cnames: [], addresses: [1], txt: [] }, "Expected dns.addresses to be an array of strings"],
+        [{ hostname: "studio.example.com", cnames: [], addresses: [] }, "Expected dns.txt to be an array"],
+        [{ hostname: "studio.example.com", cnames: [], addresses: [], txt: ["v=spf1"] }, "Expected dns.txt[0] to be { name: string, value: string }"],
+      ];
+      for (const [dns, error] of cases) {
+        const response = await post({ ...PAGE, dns });
+        assert.equal(response.status, 400, JSON.stringify(dns));
+        assert.equal((await response.json<{ error: string }>()).error, error);
+      }
+    },
+  },
+  {
+    name: "analyze: well-formed dns records are matched against the pack",
+    run: async () => {
+      const dns = { hostname: "studio.example.com", cnames: ["proxy-ssl.webflow.com"], addresses: [], txt: [] };
+      const response = await post({ ...PAGE, dns });
+      assert.equal(response.status, 200);
+      const result = await response.json<{ platformSignals: Array<{ category: string }> }>();
+      assert.ok(result.platformSignals.some((s) => s.category === "dns"), "CNAME to Webflow gives a dns signal");
+    },
+  },
+];
@@ -0,0 +1,134 @@
+/**
+ * API keys and rate limits (functions/_auth.ts) against the in-memory store:
+ * unknown, missing and disabled keys, each of the three limits, and the
+ * X-RateLimit-* headers on the responses.
+ */
+
+import assert from "node:assert/strict";
+import { checkRateLimit, createApiKey, getAuthStore, Limits } from "../../functions/_auth";
+import type { Env } from "../../functions/_env";
+import { onRequestPost as analyze } from "../../functions/api/analyze";
+import { callFunction, Check } from "../_checks";
+
+// No API_KEYS binding, so keys and counters live in the module's MemoryAuthStore
+const ENV: Env = { DOH_RESOLVER: "off" };
+
+/** A new key with `limits`; 0 leaves a limit off, so each check trips only the one it's about. */
+async function newKey(limits: Partial<Limits>): Promise<string> {
+  const { key } = await createApiKey(getAuthStore(ENV), "checks", { perMinute: 0, perDay: 0, monthlyUrls: 0, ...limits });
+  return key;
+}
+
+function analyzeRequest(key?: string): Request {
+  return new Request("https://detector.test/api/analyze", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...(key ? { authorization: `Bearer ${key}` } : {}) },
+    body: JSON.stringify({ url: "https://pottery.example.com/", html: "<html><body><h1>Pottery</h1></body></html>" }),
+  });
+}
+
+function keyed(key: string): Request {
+  return new Request("https://detector.test/api/batch", { method: "POST", headers: { authorization: `Bearer ${key}` } });
+}
+
+/** Per-minute counters reset on the minute; don't start a check that needs one window right before it turns. */
+async function awayFromMinuteEdge(): Promise<void> {
+  const seconds = new Date().getUTCSeconds();
+  if (seconds >= 58) await new Promise((resolve) => setTimeout(resolve, (61 - seconds) * 1000));
+}
+
+export const checks: Check[] = [
+  {
+    name: "auth: an unknown key is rejected with 401",
+    run: async () => {
+      const response = await callFunction(analyze, analyzeRequest("abd_000000000000000000000000000000000000000000000000"), ENV);
+      assert.equal(response.status, 401);
+      assert.equal((await response.json<{ error: string }>()).error, "Invalid API key");
+    },
+  },
+  {
+    name: "auth: a missing key is rejected with 401 when keys are required",
+    run: async () => {
+      const response = await callFunction(analyze, analyzeRequest(), { ...ENV, API_KEY_REQUIRED: "true" });
+      assert.equal(response.status, 401);
+    },
+  },
+  {
+    name: "auth: a disabled key is rejected with 403",
+    run: async () => {
+      const store = getAuthStore(ENV);
+      const { key, record } = await createApiKey(store, "checks");
+      const hash = await store.findKeyHash(record.id);
+      await store.putKey(hash!, { ...record, disabled: true });
+      const response = await callFunction(analyze, analyzeRequest(key), ENV);
+      assert.equal(response.status, 403);
+    },
+  },
+  {
+    name: "auth: responses carry the X-RateLimit-* headers and expose them",
+    run: async () => {
+      await awayFromMinuteEdge();
+      const key = await newKey({ perMinute: 5, perDay: 100, monthlyUrls: 1000 });
+      const response = await callFunction(analyze, analyzeRequest(key), ENV);
+      assert.equal(response.status, 200);
+      const h = response.headers;
+      assert.equal(h.get("X-RateLimit-Limit"), "5");
+      assert.equal(h.get("X-RateLimit-Remaining"), "4");
+      const reset = Number(h.get("X-RateLimit-Reset"));
+      assert.ok(reset >= 1 && reset <= 60, `X-RateLimit-Reset ${reset}`);
+      assert.equal(h.get("X-RateLimit-Limit-Day"), "100");
+      assert.equal(h.get("X-RateLimit-Remaining-Day"), "99");
+      assert.equal(h.get("X-RateLimit-Limit-Urls-Month"), "1000");
+      assert.equal(h.get("X-RateLimit-Remaining-Urls-Month"), "999");
+      assert.deepEqual(h.get("Access-Control-Expose-Headers")?.split(", ").sort(), [
+        "Retry-After", "X-RateLimit-Limit", "X-RateLimit-Limit-Day", "X-RateLimit-Limit-Urls-Month",
+        "X-RateLimit-Remaining", "X-RateLimit-Remaining-Day", "X-RateLimit-Remaining-Urls-Month", "X-RateLimit-Reset",
+      ]);
+    },
+  },
+  {
+    name: "auth: the per-minute limit answers 429 with Retry-After",
+    run: async () => {
+      await awayFromMinuteEdge();
+      const key = await newKey({ perMinute: 2 });
+      assert.equal((await callFunction(analyze, analyzeRequest(key), ENV)).status, 200);
+      assert.equal((await callFunction(analyze, analyzeRequest(key), ENV)).status, 200);
+      const limited = await callFunction(analyze, analyzeRequest(key), ENV);
+      assert.equal(limited.status, 429);
+      assert.equal(limited.headers.get("X-RateLimit-Remaining"), "0");
+      const body = await limited.json<{ limit: string; retryAfter: number }>();
+      assert.equal(body.limit, "minute");
+      assert.equal(limited.headers.get("Retry-After"), String(body.retryAfter));
+    },
+  },
+  {
+    name: "auth: the per-day limit answers 429",
+    run: async () => {
+      const key = await newKey({ perDay: 2 });
+      for (let i = 0; i < 2; i++) assert.equal((await checkRateLimit(keyed(key), ENV, 1)).ok, true);
+      const outcome = await checkRateLimit(keyed(key), ENV, 1);
+      assert.ok(!outcome.ok);
+      assert.equal(outcome.response.status, 429);
+      assert.equal((await outcome.response.json<{ limit: string }>()).limit, "day");
+      assert.equal(outcome.response.headers.get("X-RateLimit-Remaining-Day"), "0");
+    },
+  },
+  {
+    name: "auth: a batch that would overshoot the monthly URL quota answers 429 and isn't charged",
+    run: async () => {
+      const key = await newKey({ monthlyUrls: 60 });
+      const first = await checkRateLimit(keyed(key), ENV, 50);
+      assert.ok(first.ok);
+      assert.equal(first.headers["X-RateLimit-Remaining-Urls-Month"], "10");
+
+      const over = await checkRateLimit(keyed(key), ENV, 20);
+      assert.ok(!over.ok);
+      assert.equal(over.response.status, 429);
+      assert.equal((await over.response.json<{ limit: string }>()).limit, "month");
+
+      const rest = await checkRateLimit(keyed(key), ENV, 10);
+      assert.ok(rest.ok);
+      assert.equal(rest.headers["X-RateLimit-Remaining-Urls-Month"], "0");
+    },
+  },
+];
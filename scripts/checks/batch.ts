@@ -0,0 +1,72 @@
+/**
+ * /api/batch (functions/api/batch.ts): a row whose detection throws comes
+ * back as an error row, in the streamed and the buffered response alike,
+ * and the stream still ends with its summary.
+ */
+
+import assert from "node:assert/strict";
+import type { Env } from "../../functions/_env";
+import { onRequestPost as batch } from "../../functions/api/batch";
+import { callFunction, Check, plainPage, quietly, withFetch } from "../_checks";
+
+const DOH = "https://doh.checks.test/dns-query";
+const ENV: Env = { DOH_RESOLVER: DOH };
+
+const run = crypto.randomUUID().slice(0, 8);
+const urls = ["bistro", "broken", "cobbler"].map((name) => `https://${name}-${run}.example.com/`);
+
+/**
+ * Sites answer with a plain page. The resolver answers the "broken" site with
+ * records that have no data, which detection doesn't survive.
+ */
+function stub(request: Request): Response {
+  const url = new URL(request.url);
+  if (url.href.startsWith(DOH)) {
+    const broken = url.searchParams.get("name")?.startsWith("broken-");
+    return Response.json({ Status: 0, Answer: broken ? [{ name: "broken.", type: 5, TTL: 300 }] : [] });
+  }
+  return url.pathname === "/" ? plainPage(url.hostname) : new Response("", { status: 404 });
+}
+
+function batchRequest(query: string): Request {
+  return new Request(`https://detector.test/api/batch${query}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "cf-connecting-ip": `198.51.100.${Math.floor(Math.random() * 250)}` },
+    body: JSON.stringify({ urls, fresh: true }),
+  });
+}
+
+export const checks: Check[] = [
+  {
+    name: "batch: a row whose detection throws is streamed as an error and the summary is written",
+    run: () => withFetch(stub, () => quietly(async () => {
+      const response = await callFunction(batch, batchRequest("?stream=ndjson"), ENV);
+      assert.equal(response.status, 200);
+      const records = (await response.text()).trim().split("\n").map((line) => JSON.parse(line));
+
+      assert.equal(records[0].type, "columns");
+      const results = records.filter((r) => r.type === "result");
+      assert.equal(results.length, 3);
+      const broken = results.find((r) => r.index === 1);
+      assert.equal(broken.error, "detection_failed");
+      assert.equal(broken.bucket, "unknown");
+      assert.equal(broken.csvRow.url, urls[1]);
+      assert.ok(results.filter((r) => r.index !== 1).every((r) => r.error === null));
+
+      const summary = records[records.length - 1];
+      assert.equal(summary.type, "summary");
+      assert.equal(summary.total, 3);
+      assert.equal(summary.counts.unknown, 1);
+    })),
+  },
+  {
+    name: "batch: a row whose detection throws is an error row in the buffered response",
+    run: () => withFetch(stub, () => quietly(async () => {
+      const response = await callFunction(batch, batchRequest(""), ENV);
+      assert.equal(response.status, 200);
+      const { results } = await response.json<{ results: Array<{ error: string | null; originalRow: { url: string } }> }>();
+      assert.deepEqual(results.map((r) => r.error), [null, "detection_failed", null]);
+      assert.deepEqual(results.map((r) => r.originalRow.url), urls);
+    })),
+  },
+];
@@ -0,0 +1,104 @@
+/**
+ * Batch jobs (functions/_jobs.ts) run in-process: submitted through
+ * /api/jobs, split into MAX_BATCH-row chunks, processed by LocalJobQueue,
+ * reported by the status endpoint and streamed by the results endpoint.
+ */
+
+import assert from "node:assert/strict";
+import { MAX_BATCH } from "../../functions/_batch";
+import type { Env } from "../../functions/_env";
+import { createJob, failJobChunk, getJobProgress, getJobStore, LocalJobQueue, MAX_CHUNK_ATTEMPTS, processJobChunk } from "../../functions/_jobs";
+import { onRequestPost as submitJob } from "../../functions/api/jobs/index";
+import { onRequestGet as jobStatus } from "../../functions/api/jobs/[id]/index";
+import { onRequestGet as jobResults } from "../../functions/api/jobs/[id]/results";
+import { callFunction, Check, plainPage, quietly, withFetch } from "../_checks";
+
+// No DNS lookups: every site is answered by the fetch stub
+const ENV: Env = { DOH_RESOLVER: "off" };
+
+/** Serves a plain landing page for every site; everything else (favicons, robots.txt) is a 404. */
+const sites = (request: Request) =>
+  new URL(request.url).pathname === "/" ? plainPage(new URL(request.url).hostname) : new Response("", { status: 404 });
+
+// Hostnames unique to this run, so no result comes from the result cache
+const run = crypto.randomUUID().slice(0, 8);
+const siteUrls = (prefix: string, n: number) => Array.from({ length: n }, (_, i) => `https://${prefix}-${i}-${run}.example.com/`);
+
+async function results(id: string, format: "csv" | "json"): Promise<Response> {
+  return callFunction(jobResults, new Request(`https://detector.test/api/jobs/${id}/results?format=${format}`), ENV, { id });
+}
+
+export const checks: Check[] = [
+  {
+    name: "jobs: a 120-row job runs through the in-process queue to completion",
+    run: () => withFetch(sites, async () => {
+      const urls = siteUrls("bakery", 120);
+      const submitted = await callFunction(submitJob, new Request("https://detector.test/api/jobs", {
+        method: "POST",
+        headers: { "content-type": "application/json", "cf-connecting-ip": `203.0.113.${Math.floor(Math.random() * 250)}` },
+        body: JSON.stringify({ urls }),
+      }), ENV);
+      assert.equal(submitted.status, 202);
+      const { id, total } = await submitted.json<{ id: string; total: number }>();
+      assert.equal(total, 120);
+
+      const job = await getJobStore(ENV).getJob(id);
+      assert.equal(job?.chunkCount, Math.ceil(120 / MAX_BATCH));
+
+      const status = await callFunction(jobStatus, new Request(`https://detector.test/api/jobs/${id}`), ENV, { id });
+      const progress = await status.json<{ status: string; completed: number; failed: number; counts: Record<string, number> }>();
+      assert.equal(progress.status, "done");
+      assert.equal(progress.completed, 120);
+      assert.equal(progress.failed, 0);
+      assert.equal(progress.counts["no-ai-signals"], 120);
+
+      const csv = (await (await results(id, "csv")).text()).split("\r\n");
+      assert.equal(csv.length, 1 + 120);
+      assert.ok(csv[0].startsWith("url,"));
+      assert.ok(csv[120].startsWith(urls[119]), "rows keep their input order across chunks");
+
+      const json = await (await results(id, "json")).json<{ results: Array<{ originalRow: { url: string }; bucket: string }> }>();
+      assert.deepEqual(json.results.map((r) => r.originalRow.url), urls);
+    }),
+  },
+  {
+    name: "jobs: a chunk that fails every attempt is recorded and the job ends failed",
+    run: () => withFetch(sites, async () => {
+      const urls = siteUrls("florist", 60);
+      const job = await createJob(ENV, {
+        headers: ["url"], rows: urls.map((url) => ({ url })), urlColumn: "url",
+        pages: 1, fresh: false, robots: false, probe: false, format: "csv",
+      });
+      const store = getJobStore(ENV);
+      assert.equal((await getJobProgress(store, job)).status, "queued");
+
+      let attempts = 0;
+      let midway: Awaited<ReturnType<typeof getJobProgress>> | null = null;
+      const queue = new LocalJobQueue(async (message) => {
+        if (message.chunk === 0) return processJobChunk(ENV, message);
+        attempts++;
+        midway ??= await getJobProgress(store, job);
+        throw new Error("detector crashed");
+      }, (message) => failJobChunk(ENV, message));
+
+      await quietly(async () => {
+        await queue.send([{ jobId: job.id, chunk: 0 }, { jobId: job.id, chunk: 1 }]);
+        await queue.idle();
+      });
+
+      assert.equal(attempts, MAX_CHUNK_ATTEMPTS);
+      assert.equal(midway!.status, "running");
+      assert.equal(midway!.completed, MAX_BATCH);
+      const progress = await getJobProgress(store, job);
+      assert.equal(progress.status, "failed");
+      assert.equal(progress.completed, 60);
+      assert.equal(progress.failed, 60 - MAX_BATCH);
+      assert.ok(progress.finishedAt);
+
+      const json = await (await results(job.id, "json")).json<{ results: Array<{ error: string | null }> }>();
+      assert.equal(json.results.length, 60);
+      assert.ok(json.results.slice(0, MAX_BATCH).every((r) => r.error === null));
+      assert.ok(json.results.slice(MAX_BATCH).every((r) => r.error === "chunk_failed"));
+    }),
+  },
+];
@@ -0,0 +1,152 @@
+/**
+ * FetchScheduler (functions/_scheduler.ts): retries with backoff and
+ * Retry-After, concurrency per host, and the streaming body cap.
+ */
+
+import assert from "node:assert/strict";
+import { FetchError, FetchScheduler } from "../../functions/_scheduler";
+import { Check, withFetch } from "../_checks";
+
+/** Answers each request to a URL with the next of `responses`, repeating the last. */
+function sequence(responses: Array<() => Response>): { stub: (request: Request) => Response; calls: () => number } {
+  let calls = 0;
+  return {
+    stub: () => responses[Math.min(calls++, responses.length - 1)](),
+    calls: () => calls,
+  };
+}
+
+/** A body of `size` bytes, streamed in 16 KB chunks without a Content-Length. */
+function streamedBody(size: number): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      const n = Math.min(16_384, size - sent);
+      if (n <= 0) return controller.close();
+      controller.enqueue(new Uint8Array(n).fill(0x61));
+      sent += n;
+    },
+  });
+}
+
+const REQUEST = { timeoutMs: 5000 };
+
+export const checks: Check[] = [
+  {
+    name: "scheduler: a 503 is retried and the following 200 returned",
+    run: async () => {
+      const server = sequence([() => new Response("busy", { status: 503 }), () => new Response("ok")]);
+      const scheduler = new FetchScheduler({ baseDelayMs: 1 });
+      const result = await withFetch(server.stub, () => scheduler.fetch("https://retry.example.com/", REQUEST));
+      assert.equal(result.response.status, 200);
+      assert.equal(new TextDecoder().decode(result.body), "ok");
+      assert.equal(result.attempts, 2);
+      assert.equal(server.calls(), 2);
+    },
+  },
+  {
+    name: "scheduler: a 429 waits for its Retry-After before the retry",
+    run: async () => {
+      const server = sequence([() => new Response("", { status: 429, headers: { "Retry-After": "1" } }), () => new Response("ok")]);
+      const scheduler = new FetchScheduler({ baseDelayMs: 1 });
+      const startedAt = Date.now();
+      const result = await withFetch(server.stub, () => scheduler.fetch("https://limited.example.com/", REQUEST));
+      assert.equal(result.response.status, 200);
+      assert.equal(result.attempts, 2);
+      assert.ok(Date.now() - startedAt >= 950, `retried after ${Date.now() - startedAt}ms, expected about 1000ms`);
+    },
+  },
+  {
+    name: "scheduler: a Retry-After beyond the limit gives up instead of waiting",
+    run: async () => {
+      const server = sequence([() => new Response("", { status: 429, headers: { "Retry-After": "3600" } })]);
+      const scheduler = new FetchScheduler({ baseDelayMs: 1 });
+      await assert.rejects(
+        withFetch(server.stub, () => scheduler.fetch("https://closed.example.com/", REQUEST)),
+        (err: unknown) => err instanceof FetchError && err.message.startsWith("retry_after_too_long") && err.attempts === 1,
+      );
+    },
+  },
+  {
+    name: "scheduler: a status still retryable after every attempt is returned as-is",
+    run: async () => {
+      const server = sequence([() => new Response("down", { status: 502 })]);
+      const scheduler = new FetchScheduler({ baseDelayMs: 1, maxAttempts: 3 });
+      const result = await withFetch(server.stub, () => scheduler.fetch("https://down.example.com/", REQUEST));
+      assert.equal(result.response.status, 502);
+      assert.equal(result.attempts, 3);
+      assert.equal(server.calls(), 3);
+    },
+  },
+  {
+    name: "scheduler: assets (retry: false) are never retried",
+    run: async () => {
+      const server = sequence([() => new Response("", { status: 503 }), () => new Response("ok")]);
+      const scheduler = new FetchScheduler({ baseDelayMs: 1 });
+      const result = await withFetch(server.stub, () => scheduler.fetch("https://cdn.example.com/app.js", { ...REQUEST, retry: false }));
+      assert.equal(result.response.status, 503);
+      assert.equal(server.calls(), 1);
+    },
+  },
+  {
+    name: "scheduler: requests to one registrable domain never exceed perHost at a time",
+    run: async () => {
+      let active = 0;
+      let peak = 0;
+      const slow = async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        active--;
+        return new Response("ok");
+      };
+      const scheduler = new FetchScheduler({ concurrency: 6, perHost: 2 });
+      // Every shop is a subdomain of one domain, so they share its budget
+      const urls = Array.from({ length: 8 }, (_, i) => `https://shop-${i}.myshopify.com/`);
+      await withFetch(slow, () => Promise.all(urls.map((u) => scheduler.fetch(u, REQUEST))));
+      assert.equal(peak, 2);
+    },
+  },
+  {
+    name: "scheduler: a streamed body over maxBytes is refused without reading it all",
+    run: async () => {
+      let pulled = 0;
+      const body = streamedBody(5_000_000);
+      const reader = body.getReader();
+      const counting = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { value, done } = await reader.read();
+          if (done) return controller.close();
+          pulled += value.byteLength;
+          controller.enqueue(value);
+        },
+      });
+      const scheduler = new FetchScheduler();
+      await assert.rejects(
+        withFetch(() => new Response(counting), () => scheduler.fetch("https://big.example.com/app.js.map", { ...REQUEST, maxBytes: 100_000 })),
+        (err: unknown) => err instanceof FetchError && err.message === "body_too_large",
+      );
+      assert.ok(pulled < 200_000, `read ${pulled} bytes of a 5 MB body`);
+    },
+  },
+  {
+    name: "scheduler: a declared Content-Length over maxBytes is refused before reading",
+    run: async () => {
+      const scheduler = new FetchScheduler();
+      const oversized = () => new Response(streamedBody(300_000), { headers: { "content-length": "300000" } });
+      await assert.rejects(
+        withFetch(oversized, () => scheduler.fetch("https://big.example.com/logo.png", { ...REQUEST, maxBytes: 100_000 })),
+        (err: unknown) => err instanceof FetchError && err.message === "body_too_large",
+      );
+    },
+  },
+  {
+    name: "scheduler: with truncate, an oversized body is cut to exactly maxBytes",
+    run: async () => {
+      const scheduler = new FetchScheduler();
+      const result = await withFetch(() => new Response(streamedBody(1_000_000)), () =>
+        scheduler.fetch("https://big.example.com/sitemap.xml", { ...REQUEST, maxBytes: 50_000, truncate: true }));
+      assert.equal(result.body.byteLength, 50_000);
+    },
+  },
+];
@@ -0,0 +1,76 @@
+/**
+ * URL policy (functions/_urlpolicy.ts): literal, encoded and wrapped forms of
+ * internal addresses are rejected, public targets are not, and the scheduler
+ * applies the policy to every redirect hop (see also the redirect-* fixtures).
+ */
+
+import assert from "node:assert/strict";
+import { BlockReason, checkTarget } from "../../functions/_urlpolicy";
+import { BlockedTargetError, FetchScheduler } from "../../functions/_scheduler";
+import { Check, withFetch } from "../_checks";
+
+const TARGETS: Array<[url: string, reason: BlockReason | null]> = [
+  // Literal addresses
+  ["http://127.0.0.1/", "loopback"],
+  ["http://10.1.2.3/", "private"],
+  ["http://169.254.169.254/latest/meta-data/", "link_local"],
+  ["http://[::1]/", "loopback"],
+  ["http://[fd00::1]/", "private"],
+  ["http://[fe80::1]/", "link_local"],
+  // The same addresses encoded
+  ["http://2130706433/", "loopback"],
+  ["http://0x7f.1/", "loopback"],
+  ["http://0177.0.0.1/", "loopback"],
+  ["http://%31%32%37.0.0.1/", "loopback"],
+  ["http://0xa9fea9fe/", "link_local"],
+  // IPv6 addresses wrapping IPv4 ones
+  ["http://[::ffff:127.0.0.1]/", "loopback"],
+  ["http://[::ffff:a9fe:a9fe]/", "link_local"],
+  ["http://[::127.0.0.1]/", "loopback"],
+  ["http://[::a9fe:a9fe]/", "link_local"],
+  ["http://[64:ff9b::10.0.0.1]/", "private"],
+  ["http://[2002:7f00:1::]/", "loopback"],
+  ["http://[2002:c0a8:101::1]/", "private"],
+  ["http://[2002:a9fe:a9fe::]/", "link_local"],
+  // Names, schemes and ports
+  ["http://localhost/", "loopback"],
+  ["http://metadata.google.internal/", "internal_hostname"],
+  ["http://intranet/", "internal_hostname"],
+  ["file:///etc/passwd", "scheme"],
+  ["http://example.com:8080/", "port"],
+  // Public targets
+  ["https://example.com/", null],
+  ["http://93.184.216.34/", null],
+  ["http://[2606:2800:220:1:248:1893:25c8:1946]/", null],
+  ["http://[2002:5db8:d822::1]/", null],
+  ["http://[::ffff:93.184.216.34]/", null],
+];
+
+export const checks: Check[] = [
+  {
+    name: "urlpolicy: literal, encoded and wrapped internal addresses are blocked, public ones allowed",
+    run: async () => {
+      const wrong = TARGETS
+        .map(([url, reason]) => [url, reason, checkTarget(url)?.reason ?? null] as const)
+        .filter(([, expected, actual]) => expected !== actual)
+        .map(([url, expected, actual]) => `${url}: expected ${expected ?? "allowed"}, got ${actual ?? "allowed"}`);
+      assert.deepEqual(wrong, []);
+    },
+  },
+  {
+    name: "urlpolicy: a redirect hop to an internal address is refused before it is requested",
+    run: async () => {
+      const requested: string[] = [];
+      const server = (request: Request) => {
+        requested.push(request.url);
+        return new Response("", { status: 302, headers: { location: "http://[::ffff:169.254.169.254]/latest/meta-data/" } });
+      };
+      const scheduler = new FetchScheduler();
+      await assert.rejects(
+        withFetch(server, () => scheduler.fetch("https://go.example.com/r/1", { timeoutMs: 5000 })),
+        (err: unknown) => err instanceof BlockedTargetError && err.blocked.reason === "link_local",
+      );
+      assert.deepEqual(requested, ["https://go.example.com/r/1"]);
+    },
+  },
+];
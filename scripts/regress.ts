@@ -0,0 +1,180 @@
+/**
+ * Golden-result regression runner.
+ *
+ * Feeds every fixture in fixtures/ through detectUrl() with fetch stubbed to
+ * serve the captured page and assets, then compares bucket, platform,
+ * signals, stack and error against the fixture's expected.json. A fixture with a
+ * finalUrl is served as a 301 from url to finalUrl; one with a rendered file
+ * has it served by a StaticRenderer when the page is an empty SPA shell; one
+ * with dns zone data gets DNS lookups, answered by a local DoH stub; one with
+ * probe: true runs in probe mode, its probe paths served from assets; one
+ * with hashes has those hash rules added to the bundled pack. Redirects are
+ * served as 301s, and a fixture with pages is crawled with detectSite(), its
+ * extra pages served from assets and listed in expected.json. One with
+ * robots: true runs in compliant mode (crawler identity, robots.txt obeyed);
+ * statuses set the status an asset URL answers with, and requireUserAgent
+ * makes every request without that token in its User-Agent a 403.
+ *
+ *   npm test                 — run the unit checks (checks.ts), then compare, print diffs +
+ *                              precision/recall, exit 1 on any change
+ *   npm run test:update      — rewrite expected.json from the current detector output
+ *   npm test -- <name> ...   — only run the named fixtures
+ *
+ * Fixture layout (one directory per fixture):
+ *
+ *   fixtures/<name>/fixture.json   { url, finalUrl?, headers?, assets?: { "<absolute url>": "<file>" }, rendered?: "<file>",
+ *                                    redirects?: { "<absolute url>": "<location>" }, pages?: N,
+ *                                    statuses?: { "<absolute url>": status }, requireUserAgent?: "<token>", robots?: true,
+ *                                    dns?: { "<name>": { CNAME?, A?: [], TXT?: [] } }, probe?: true,
+ *                                    hashes?: { platforms?: { "<name>": [rule] }, templates?: { "<name>": [rule] } } }
+ *   fixtures/<name>/page.html      captured HTML of the landing page
+ *   fixtures/<name>/<rendered>     the landing page's DOM after its scripts ran (optional)
+ *   fixtures/<name>/expected.json  golden result (written by --update, reviewed by hand)
+ */
+
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { SiteDetectionResult } from "../functions/_crawl";
+import type { DetectionResult, Signal } from "../functions/_detector";
+import type { Stack, StackComponent } from "../functions/_stack";
+import { detectFixture, Expected, FIXTURES_DIR, loadFixtures } from "./_fixtures";
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+// Signals only the rendered DOM produced are tagged, so a fixture shows what rendering added
+const signalKey = (s: Signal) => `${s.category}: ${s.description}${s.dom === "rendered" ? " [rendered]" : ""}`;
+
+function stackKeys(stack: Stack | null): string[] {
+  if (!stack) return [];
+  const key = (part: string, c: StackComponent) => `${part}: ${c.name}${c.version ? ` ${c.version}` : ""}`;
+  return [
+    ...(stack.framework ? [key("framework", stack.framework)] : []),
+    ...(stack.buildTool ? [key("build", stack.buildTool)] : []),
+    ...stack.uiLibraries.map((c) => key("ui", c)),
+    ...(stack.host ? [key("host", stack.host)] : []),
+    ...stack.analytics.map((c) => key("analytics", c)),
+  ];
+}
+
+function toExpected(r: DetectionResult): Expected {
+  const expected: Expected = {
+    bucket: r.bucket,
+    platform: r.platform,
+    platformSignals: r.platformSignals.map(signalKey).sort(),
+    aiSignals: r.aiSignals.map(signalKey).sort(),
+  };
+  const stack = stackKeys(r.stack);
+  if (stack.length) expected.stack = stack;
+  if (r.render) expected.render = r.render.error ? `${r.render.renderer}: ${r.render.error}` : r.render.renderer;
+  if (r.error) expected.error = r.error;
+  if ("pages" in r) expected.pages = (r as SiteDetectionResult).pages.map((p) => `${p.url}: ${p.error ?? p.bucket}`);
+  return expected;
+}
+
+function diffLists(label: string, expected: string[], actual: string[]): string[] {
+  const lines: string[] = [];
+  for (const s of expected) if (!actual.includes(s)) lines.push(`    - ${label} ${s}`);
+  for (const s of actual) if (!expected.includes(s)) lines.push(`    + ${label} ${s}`);
+  return lines;
+}
+
+function diff(expected: Expected, actual: Expected): string[] {
+  const lines: string[] = [];
+  if (expected.bucket !== actual.bucket) lines.push(`    bucket: ${expected.bucket} → ${actual.bucket}`);
+  if (expected.platform !== actual.platform) lines.push(`    platform: ${expected.platform ?? "none"} → ${actual.platform ?? "none"}`);
+  if (expected.error !== actual.error) lines.push(`    error: ${expected.error ?? "none"} → ${actual.error ?? "none"}`);
+  if (expected.render !== actual.render) lines.push(`    render: ${expected.render ?? "none"} → ${actual.render ?? "none"}`);
+  lines.push(...diffLists("platform signal", expected.platformSignals, actual.platformSignals));
+  lines.push(...diffLists("ai signal", expected.aiSignals, actual.aiSignals));
+  lines.push(...diffLists("stack", expected.stack ?? [], actual.stack ?? []));
+  lines.push(...diffLists("page", expected.pages ?? [], actual.pages ?? []));
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Precision / recall
+// ---------------------------------------------------------------------------
+
+interface Tally { tp: number; fp: number; fn: number }
+
+function tally(table: Map<string, Tally>, label: string, expected: boolean, actual: boolean): void {
+  const t = table.get(label) ?? { tp: 0, fp: 0, fn: 0 };
+  if (expected && actual) t.tp++;
+  else if (actual) t.fp++;
+  else if (expected) t.fn++;
+  table.set(label, t);
+}
+
+const categoryOf = (key: string) => key.slice(0, key.indexOf(":"));
+
+function printTable(title: string, table: Map<string, Tally>): void {
+  const pct = (n: number, d: number) => (d ? `${((n / d) * 100).toFixed(0)}%` : "—").padStart(9);
+  const width = Math.max(title.length, ...[...table.keys()].map((k) => k.length)) + 2;
+  console.log(`\n${title.padEnd(width)}   TP   FP   FN  precision     recall`);
+  for (const [label, t] of [...table.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    console.log(
+      `${label.padEnd(width)} ${String(t.tp).padStart(4)} ${String(t.fp).padStart(4)} ${String(t.fn).padStart(4)}` +
+      `  ${pct(t.tp, t.tp + t.fp)}  ${pct(t.tp, t.tp + t.fn)}`,
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const update = args.includes("--update");
+  const fixtures = loadFixtures(args.filter((a) => !a.startsWith("--")));
+  if (!fixtures.length) {
+    console.error(`No fixtures found in ${FIXTURES_DIR}`);
+    return 1;
+  }
+
+  const platforms = new Map<string, Tally>();
+  const heuristics = new Map<string, Tally>();
+  let failures = 0;
+
+  for (const fixture of fixtures) {
+    const actual = toExpected(await detectFixture(fixture));
+
+    if (update || !fixture.expected) {
+      writeFileSync(join(fixture.dir, "expected.json"), JSON.stringify(actual, null, 2) + "\n");
+      console.log(`WROTE ${fixture.name}  (${actual.bucket}${actual.platform ? ` · ${actual.platform}` : ""})`);
+      continue;
+    }
+
+    const lines = diff(fixture.expected, actual);
+    if (lines.length) {
+      failures++;
+      console.log(`FAIL  ${fixture.name}`);
+      for (const l of lines) console.log(l);
+    } else {
+      console.log(`ok    ${fixture.name}`);
+    }
+
+    for (const p of new Set([fixture.expected.platform, actual.platform])) {
+      if (p) tally(platforms, p, fixture.expected.platform === p, actual.platform === p);
+    }
+    const expectedCats = new Set(fixture.expected.aiSignals.map(categoryOf));
+    const actualCats = new Set(actual.aiSignals.map(categoryOf));
+    for (const c of new Set([...expectedCats, ...actualCats])) {
+      tally(heuristics, c, expectedCats.has(c), actualCats.has(c));
+    }
+  }
+
+  if (!update && (platforms.size || heuristics.size)) {
+    printTable("platform", platforms);
+    printTable("heuristic category", heuristics);
+    console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures match their golden results`);
+  }
+  return failures ? 1 : 0;
+}
+
+main().then((code) => process.exit(code), (err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,264 @@
+/**
+ * Scoring model trainer (see functions/_model.ts).
+ *
+ * Fits the platform and AI logistic regressions to labeled DetectionResults,
+ * reports k-fold cross-validated calibration and precision/recall per
+ * threshold, and writes the model weights as JSON.
+ *
+ *   npm run train -- --data labeled.jsonl                 — train, print the model to stdout
+ *   npm run train -- --fixtures --out functions/_model.json
+ *   npm run train -- --data labeled.jsonl --folds 10 --version 2026-10-19
+ *
+ * --data is JSONL, one { "label": { "bucket", "platform" }, "result": DetectionResult }
+ * per line (results as returned by /api/detect). --fixtures adds the fixture
+ * corpus, labeled by each fixture's expected.json. Those labels are the rule
+ * engine's own output, so only a model trained on --data alone is marked
+ * `calibrated`; with --fixtures the report partly measures agreement with the
+ * rules, not accuracy. The evaluation report goes to stderr.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { Bucket, DetectionResult, MIN_AI_SCORE, MIN_PLATFORM_SCORE } from "../functions/_detector";
+import { features, LogisticWeights, predict, predictLogistic, priorWeights, ScoringModel } from "../functions/_model";
+import { detectFixture, loadFixtures } from "./_fixtures";
+
+interface Label {
+  bucket: Bucket;
+  platform: string | null;
+}
+
+interface LabeledResult {
+  label: Label;
+  result: DetectionResult;
+}
+
+interface Example {
+  x: Record<string, number>;
+  y: 0 | 1;
+}
+
+const BUCKETS: Bucket[] = ["platform-assisted", "ai-assisted", "no-ai-signals"];
+const THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+const ITERATIONS = 3000;
+const LEARNING_RATE = 0.5;
+// Pull towards the prior, worth about this many examples — small corpora stay close to the rules
+const PRIOR_STRENGTH = 5;
+
+// ---------------------------------------------------------------------------
+// Data
+// ---------------------------------------------------------------------------
+
+function readLabeled(path: string): LabeledResult[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      const row = JSON.parse(line) as LabeledResult;
+      if (!row.label?.bucket || !row.result) throw new Error(`${path}:${i + 1}: expected { label, result }`);
+      return row;
+    });
+}
+
+async function fixtureLabeled(): Promise<LabeledResult[]> {
+  const labeled: LabeledResult[] = [];
+  for (const fixture of loadFixtures([])) {
+    if (!fixture.expected) continue;
+    labeled.push({
+      label: { bucket: fixture.expected.bucket as Bucket, platform: fixture.expected.platform },
+      result: await detectFixture(fixture),
+    });
+  }
+  return labeled;
+}
+
+/** Only analysed results with a decidable label can teach the model anything. */
+const usable = (r: LabeledResult) => r.label.bucket !== "unknown" && r.result.explanation !== null;
+
+function platformExamples(data: LabeledResult[]): Example[] {
+  return data.flatMap(({ label, result }) => result.explanation!.platforms.map((b) => ({
+    x: features(b.categories),
+    y: label.bucket === "platform-assisted" && label.platform === b.name ? 1 as const : 0 as const,
+  })));
+}
+
+function aiExamples(data: LabeledResult[]): Example[] {
+  return data
+    .filter(({ label }) => label.bucket !== "platform-assisted")
+    .map(({ label, result }) => ({
+      x: features(result.explanation!.ai.categories),
+      y: label.bucket === "ai-assisted" ? 1 as const : 0 as const,
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Training
+// ---------------------------------------------------------------------------
+
+/** Full-batch gradient descent on log loss plus an L2 pull towards `prior`. Deterministic. */
+function fitLogistic(examples: Example[], prior: LogisticWeights): LogisticWeights {
+  const names = [...new Set(examples.flatMap((e) => Object.keys(e.x)))].sort();
+  const w: LogisticWeights = { ...prior, weights: Object.fromEntries(names.map((n) => [n, prior.defaultWeight])) };
+  const n = examples.length + PRIOR_STRENGTH;
+
+  for (let iter = 0; iter < ITERATIONS && examples.length; iter++) {
+    let gBias = PRIOR_STRENGTH * (w.bias - prior.bias);
+    const g: Record<string, number> = Object.fromEntries(names.map((k) => [k, PRIOR_STRENGTH * (w.weights[k] - prior.defaultWeight)]));
+    for (const e of examples) {
+      const err = predictLogistic(w, e.x) - e.y;
+      gBias += err;
+      for (const [k, v] of Object.entries(e.x)) g[k] += err * v;
+    }
+    w.bias -= LEARNING_RATE * gBias / n;
+    for (const k of names) w.weights[k] -= LEARNING_RATE * g[k] / n;
+  }
+
+  const r = (v: number) => Math.round(v * 1e4) / 1e4;
+  return { bias: r(w.bias), weights: Object.fromEntries(names.map((k) => [k, r(w.weights[k])])), defaultWeight: w.defaultWeight };
+}
+
+function train(data: LabeledResult[], version: string, calibrated = false): ScoringModel {
+  return {
+    schema: 2,
+    version,
+    calibrated,
+    platform: fitLogistic(platformExamples(data), priorWeights(MIN_PLATFORM_SCORE)),
+    ai: fitLogistic(aiExamples(data), priorWeights(MIN_AI_SCORE)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+interface Prediction {
+  label: Label;
+  rules: Bucket;
+  probs: Record<Bucket, number>;
+}
+
+interface Evaluation {
+  examples: number;
+  folds: number;
+  logLoss: number;
+  brier: number;
+  accuracy: number;
+  rulesAccuracy: number;
+}
+
+function crossValidate(data: LabeledResult[], folds: number): Prediction[] {
+  const predictions: Prediction[] = [];
+  for (let f = 0; f < folds; f++) {
+    const model = train(data.filter((_, i) => i % folds !== f), "cv");
+    for (const { label, result } of data.filter((_, i) => i % folds === f)) {
+      predictions.push({ label, rules: result.bucket, probs: predict(model, result.explanation!).buckets });
+    }
+  }
+  return predictions;
+}
+
+function evaluate(predictions: Prediction[], folds: number): Evaluation {
+  let logLoss = 0;
+  let brier = 0;
+  let correct = 0;
+  let rulesCorrect = 0;
+  for (const { label, rules, probs } of predictions) {
+    logLoss -= Math.log(Math.max(probs[label.bucket], 1e-6));
+    for (const b of BUCKETS) brier += (probs[b] - (b === label.bucket ? 1 : 0)) ** 2;
+    const argmax = BUCKETS.reduce((best, b) => (probs[b] > probs[best] ? b : best));
+    if (argmax === label.bucket) correct++;
+    if (rules === label.bucket) rulesCorrect++;
+  }
+  const n = predictions.length || 1;
+  const r = (v: number) => Math.round(v * 1e4) / 1e4;
+  return {
+    examples: predictions.length,
+    folds,
+    logLoss: r(logLoss / n),
+    brier: r(brier / n),
+    accuracy: r(correct / n),
+    rulesAccuracy: r(rulesCorrect / n),
+  };
+}
+
+function printReport(evaluation: Evaluation, predictions: Prediction[]): void {
+  const pct = (n: number, d: number) => (d ? `${((n / d) * 100).toFixed(0)}%` : "—").padStart(9);
+  const log = (line = "") => console.error(line);
+
+  log(`${evaluation.examples} examples, ${evaluation.folds}-fold cross-validation`);
+  log(`log loss ${evaluation.logLoss}   brier ${evaluation.brier}   accuracy ${pct(evaluation.accuracy * 100, 100).trim()}` +
+    `   (rule-based buckets: ${pct(evaluation.rulesAccuracy * 100, 100).trim()})`);
+
+  // Precision per threshold — what analysts pick a cut-off from
+  for (const bucket of ["platform-assisted", "ai-assisted"] as const) {
+    log(`\n${bucket.padEnd(18)} threshold  precision     recall`);
+    const positives = predictions.filter((p) => p.label.bucket === bucket).length;
+    for (const t of THRESHOLDS) {
+      const flagged = predictions.filter((p) => p.probs[bucket] >= t);
+      const tp = flagged.filter((p) => p.label.bucket === bucket).length;
+      log(`${"".padEnd(18)} ${t.toFixed(2).padStart(9)}  ${pct(tp, flagged.length)}  ${pct(tp, positives)}`);
+    }
+  }
+
+  // Reliability: how often a bucket given probability p is actually right
+  log(`\npredicted     n   observed`);
+  for (let bin = 0; bin < 10; bin++) {
+    const lo = bin / 10;
+    const inBin = predictions.flatMap((p) => BUCKETS
+      .filter((b) => p.probs[b] >= lo && (p.probs[b] < lo + 0.1 || (bin === 9 && p.probs[b] <= 1)))
+      .map((b) => b === p.label.bucket));
+    if (!inBin.length) continue;
+    log(`${lo.toFixed(1)}–${(lo + 0.1).toFixed(1)}  ${String(inBin.length).padStart(5)}  ${pct(inBin.filter(Boolean).length, inBin.length)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const dataPath = flag(args, "--data");
+  const withFixtures = args.includes("--fixtures");
+  if (!dataPath && !withFixtures) {
+    console.error("Usage: train.ts [--data labeled.jsonl] [--fixtures] [--out model.json] [--folds N] [--version V]");
+    return 1;
+  }
+
+  const data = [
+    ...(dataPath ? readLabeled(dataPath) : []),
+    ...(withFixtures ? await fixtureLabeled() : []),
+  ].filter(usable);
+  if (data.length < 2) {
+    console.error(`Need at least 2 usable labeled results, got ${data.length}`);
+    return 1;
+  }
+
+  const folds = Math.min(parseInt(flag(args, "--folds") ?? "5", 10) || 5, data.length);
+  const predictions = crossValidate(data, folds);
+  printReport(evaluate(predictions, folds), predictions);
+  const calibrated = Boolean(dataPath) && !withFixtures;
+  if (!calibrated) {
+    console.error(`\nFixture labels ${dataPath ? "mixed in" : "only"} — the model restates the rules and is written as uncalibrated`);
+  }
+
+  const model = train(data, flag(args, "--version") ?? new Date().toISOString().slice(0, 10), calibrated);
+  const json = JSON.stringify(model, null, 2) + "\n";
+  const out = flag(args, "--out");
+  if (out) {
+    writeFileSync(out, json);
+    console.error(`\nWROTE ${out}  (model ${model.version}, ${data.length} examples)`);
+  } else {
+    process.stdout.write(json);
+  }
+  return 0;
+}
+
+main().then((code) => process.exit(code), (err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+/**
+ * Queue consumer for batch jobs. Pages Functions can only produce to a Queue,
+ * so chunks queued by /api/jobs are detected by this standalone Worker. It
+ * must share the JOBS / RESULT_CACHE / FINGERPRINT_PACKS bindings with the
+ * Pages project (see wrangler.jobs.toml).
+ */
+
+import type { Env } from "../functions/_env";
+import { failJobChunk, JobMessage, MAX_CHUNK_ATTEMPTS, processJobChunk } from "../functions/_jobs";
+
+export default {
+  async queue(batch: MessageBatch<JobMessage>, env: Env): Promise<void> {
+    for (const message of batch.messages) {
+      try {
+        await processJobChunk(env, message.body);
+        message.ack();
+      } catch (err: unknown) {
+        console.warn(`Job ${message.body.jobId} chunk ${message.body.chunk} failed (attempt ${message.attempts}): ${(err as Error).message}`);
+        // The last delivery: record the failure instead of letting the queue drop it
+        if (message.attempts >= MAX_CHUNK_ATTEMPTS) {
+          await failJobChunk(env, message.body);
+          message.ack();
+        } else {
+          message.retry();
+        }
+      }
+    }
+  },
+} satisfies ExportedHandler<Env, JobMessage>;
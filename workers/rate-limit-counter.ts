@@ -0,0 +1,50 @@
+/**
+ * Rate-limit counters as Durable Objects, one object per counter name. An
+ * object handles one request at a time, so a read-increment-write can't lose
+ * a concurrent increment the way a KV get-then-put does, and there's no
+ * per-key write rate to run into. Pages Functions can't define Durable
+ * Objects, so this Worker hosts the class and the Pages project binds to it
+ * as RATE_LIMIT_COUNTERS (see wrangler.counters.toml and functions/_auth.ts).
+ *
+ *   POST { by, ttlSeconds }  → { value }   add `by` (0 just reads)
+ */
+
+interface StoredCounter {
+  value: number;
+  expiresAt: number;
+}
+
+export class RateLimitCounter implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { by, ttlSeconds } = await request.json<{ by: number; ttlSeconds: number }>();
+    // The read and the write happen with other requests held off
+    const value = await this.state.blockConcurrencyWhile(() => this.add(by, ttlSeconds));
+    return Response.json({ value });
+  }
+
+  private async add(by: number, ttlSeconds: number): Promise<number> {
+    const now = Date.now();
+    const stored = await this.state.storage.get<StoredCounter>("counter");
+    const current = stored && stored.expiresAt > now ? stored.value : 0;
+    if (!by) return current;
+
+    const next: StoredCounter = { value: current + by, expiresAt: now + ttlSeconds * 1000 };
+    await this.state.storage.put("counter", next);
+    // Expired counters delete themselves rather than piling up per window
+    await this.state.storage.setAlarm(next.expiresAt);
+    return next.value;
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// The Worker itself serves nothing; it only hosts the class
+export default {
+  async fetch(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  },
+} satisfies ExportedHandler;